@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createClientIpResolver, type ClientIpOptions } from '@/lib/clientIp';
+import { createRequest } from './helpers';
+
+const CLIENT = '198.51.100.7';
+const ATTACKER_CHOICE = '203.0.113.66';
+
+const DEFAULT: ClientIpOptions = { trustedProxies: ['loopback', 'private'] };
+const CIDR: ClientIpOptions = { trustedProxies: ['192.0.2.0/24', '2001:db8::/32'] };
+const FORWARDED: ClientIpOptions = { trustedProxies: ['loopback'], header: 'forwarded' };
+
+type SpoofCase = [name: string, options: ClientIpOptions, peer: string, headers: Record<string, string | string[]>, expected: string | null];
+
+const CASES: SpoofCase[] = [
+  // Forged left-most X-Forwarded-For entries
+  ['direct client forging X-Forwarded-For', DEFAULT, CLIENT, { 'x-forwarded-for': ATTACKER_CHOICE }, CLIENT],
+  ['forged entry prepended before the proxy appends', DEFAULT, '127.0.0.1', { 'x-forwarded-for': `${ATTACKER_CHOICE}, ${CLIENT}` }, CLIENT],
+  ['several forged entries', DEFAULT, '10.0.0.2', { 'x-forwarded-for': `1.1.1.1, ${ATTACKER_CHOICE}, ${CLIENT}` }, CLIENT],
+  ['forged private address to pose as a proxy', DEFAULT, '127.0.0.1', { 'x-forwarded-for': `${CLIENT}, 10.0.0.9` }, CLIENT],
+  ['forged entries split over repeated headers', DEFAULT, '127.0.0.1', { 'x-forwarded-for': [ATTACKER_CHOICE, CLIENT] }, CLIENT],
+  ['chain of trusted proxies', DEFAULT, '10.0.0.2', { 'x-forwarded-for': `${ATTACKER_CHOICE}, ${CLIENT}, 10.0.0.9, 192.168.1.1` }, CLIENT],
+
+  // Too many or too few hops
+  ['one configured hop', { trustedProxies: [], trustedHops: 1 }, '52.1.2.3', { 'x-forwarded-for': `${ATTACKER_CHOICE}, ${CLIENT}` }, CLIENT],
+  ['two configured hops', { trustedProxies: [], trustedHops: 2 }, '52.1.2.3', { 'x-forwarded-for': `${ATTACKER_CHOICE}, ${CLIENT}, 52.9.9.9` }, CLIENT],
+  ['more hops configured than the chain has', { trustedProxies: [], trustedHops: 5 }, '52.1.2.3', { 'x-forwarded-for': CLIENT }, CLIENT],
+  ['hop configured but no header sent', { trustedProxies: [], trustedHops: 1 }, '52.1.2.3', {}, '52.1.2.3'],
+  ['fewer hops configured than proxies', { trustedProxies: [], trustedHops: 1 }, '52.1.2.3', { 'x-forwarded-for': `${CLIENT}, 52.9.9.9` }, '52.9.9.9'],
+  ['no hops and no trusted proxies', { trustedProxies: [] }, '127.0.0.1', { 'x-forwarded-for': ATTACKER_CHOICE }, '127.0.0.1'],
+
+  // IPv6 and IPv4-mapped addresses
+  ['IPv4-mapped loopback proxy', DEFAULT, '::ffff:127.0.0.1', { 'x-forwarded-for': CLIENT }, CLIENT],
+  ['IPv4-mapped client address', DEFAULT, '127.0.0.1', { 'x-forwarded-for': `::ffff:${CLIENT}` }, CLIENT],
+  ['IPv6 loopback proxy', DEFAULT, '::1', { 'x-forwarded-for': '2001:db8:cafe::17' }, '2001:db8:cafe::17'],
+  ['IPv6 private proxy', DEFAULT, 'fd00::1', { 'x-forwarded-for': `${ATTACKER_CHOICE}, ${CLIENT}` }, CLIENT],
+  ['IPv6 client in brackets with a port', CIDR, '2001:db8::5', { 'x-forwarded-for': '[2001:db8:cafe::17]:4711' }, '2001:db8:cafe::17'],
+  ['IPv6 written in upper case', DEFAULT, '::1', { 'x-forwarded-for': '2001:DB8:CAFE::17' }, '2001:db8:cafe::17'],
+  ['IPv4 client with a port', DEFAULT, '127.0.0.1', { 'x-forwarded-for': `${CLIENT}:52144` }, CLIENT],
+  ['IPv6 peer outside the trusted range', CIDR, '2001:db9::5', { 'x-forwarded-for': ATTACKER_CHOICE }, '2001:db9::5'],
+
+  // Malformed and forged Forwarded values
+  ['Forwarded with quoted IPv6 and parameters', FORWARDED, '127.0.0.1', { forwarded: `for=${ATTACKER_CHOICE}, for="[2001:db8:cafe::17]:4711";proto=https` }, '2001:db8:cafe::17'],
+  ['Forwarded with quoted IPv4 and port', FORWARDED, '127.0.0.1', { forwarded: `for="${CLIENT}:5000"` }, CLIENT],
+  ['Forwarded with an upper-case key', FORWARDED, '127.0.0.1', { forwarded: `For=${CLIENT}` }, CLIENT],
+  ['Forwarded with an obfuscated identifier', FORWARDED, '127.0.0.1', { forwarded: 'for=_hidden' }, '127.0.0.1'],
+  ['Forwarded with "unknown"', FORWARDED, '127.0.0.1', { forwarded: 'for=unknown' }, '127.0.0.1'],
+  ['Forwarded without a for= pair', FORWARDED, '127.0.0.1', { forwarded: 'proto=https;by=10.0.0.1' }, '127.0.0.1'],
+  ['Forwarded with an unterminated quote', FORWARDED, '127.0.0.1', { forwarded: 'for="[2001:db8::1' }, '127.0.0.1'],
+  ['Forwarded with junk after a forged entry', FORWARDED, '127.0.0.1', { forwarded: `for=${ATTACKER_CHOICE}, for=;;;` }, '127.0.0.1'],
+  ['Forwarded forged while the proxy writes X-Forwarded-For', DEFAULT, '127.0.0.1', { 'x-forwarded-for': CLIENT, forwarded: `for=${ATTACKER_CHOICE}` }, CLIENT],
+  ['X-Forwarded-For forged while the proxy writes Forwarded', FORWARDED, '127.0.0.1', { forwarded: `for=${CLIENT}`, 'x-forwarded-for': ATTACKER_CHOICE }, CLIENT],
+  ['X-Real-IP forged', DEFAULT, '127.0.0.1', { 'x-forwarded-for': CLIENT, 'x-real-ip': ATTACKER_CHOICE }, CLIENT],
+
+  // Untrusted peers
+  ['public peer sending every header', DEFAULT, CLIENT, { 'x-forwarded-for': ATTACKER_CHOICE, forwarded: `for=${ATTACKER_CHOICE}`, 'x-real-ip': ATTACKER_CHOICE }, CLIENT],
+  ['peer just outside a trusted CIDR range', CIDR, '192.0.3.1', { 'x-forwarded-for': ATTACKER_CHOICE }, '192.0.3.1'],
+  ['peer inside a trusted CIDR range', CIDR, '192.0.2.200', { 'x-forwarded-for': `${ATTACKER_CHOICE}, ${CLIENT}` }, CLIENT],
+  ['trusted proxy that reports junk', DEFAULT, '127.0.0.1', { 'x-forwarded-for': `${ATTACKER_CHOICE}, garbage` }, '127.0.0.1'],
+  ['peer with no socket address', DEFAULT, '', { 'x-forwarded-for': ATTACKER_CHOICE }, null]
+];
+
+describe('createClientIpResolver', () => {
+  it.each(CASES)('%s', (_name, options, peer, headers, expected) => {
+    const resolve = createClientIpResolver(options);
+    expect(resolve(createRequest({ ip: peer, headers }))).toBe(expected);
+  });
+
+  it.each([['10.0.0.0/40'], ['not-an-ip'], ['10.0.0.0/abc']])('rejects the trusted proxy %j', (entry) => {
+    expect(() => createClientIpResolver({ trustedProxies: [entry] })).toThrow('Invalid trusted proxy');
+  });
+});
+
+describe('getClientIp configuration', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  it('reads the trusted proxies and hops from the environment', async () => {
+    vi.stubEnv('TRUSTED_PROXIES', 'none');
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '1');
+    const { getClientIp } = await import('@/lib/clientIp');
+
+    expect(getClientIp(createRequest({ ip: '52.1.2.3', headers: { 'x-forwarded-for': `${ATTACKER_CHOICE}, ${CLIENT}` } }))).toBe(CLIENT);
+  });
+
+  it.each([
+    ['TRUSTED_PROXIES', '10.0.0.0/99'],
+    ['TRUSTED_PROXY_HOPS', 'two'],
+    ['TRUSTED_PROXY_HOPS', '-1'],
+    ['TRUSTED_PROXY_HEADER', 'x-client-ip']
+  ])('falls back to the socket address when %s is %j', async (name, value) => {
+    vi.stubEnv(name, value);
+    const { getClientIp } = await import('@/lib/clientIp');
+    const req = createRequest({ ip: '127.0.0.1', headers: { 'x-forwarded-for': ATTACKER_CHOICE } });
+
+    expect(getClientIp(req)).toBe('127.0.0.1');
+    expect(getClientIp(req)).toBe('127.0.0.1');
+    expect(console.error).toHaveBeenCalledTimes(1);
+  });
+});
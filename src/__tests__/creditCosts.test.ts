@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { getQuizCreditCost, getSentInputChars } from '@/lib/creditCosts';
+import { SECTION_MAX_CHARS } from '@/lib/studyGuideSections';
+
+describe('quiz credit costs', () => {
+  it('charges one credit for a ten-question topic quiz', () => {
+    expect(getQuizCreditCost(10, 40)).toBe(1);
+  });
+
+  it('only charges for the sections that get questions', () => {
+    // 75 full sections (~900k characters) and ten questions: at most ten sections are sent.
+    const sections = Array.from({ length: 75 }, () => SECTION_MAX_CHARS);
+    expect(getSentInputChars(sections, 10)).toBe(10 * SECTION_MAX_CHARS);
+  });
+
+  it('keeps the largest quiz within a guest allowance', () => {
+    const sections = Array.from({ length: 75 }, () => SECTION_MAX_CHARS);
+    expect(getQuizCreditCost(20, getSentInputChars(sections, 20))).toBeLessThanOrEqual(5);
+  });
+});
@@ -0,0 +1,69 @@
+import { EventEmitter } from 'events';
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+export type MockResponse = NextApiResponse & {
+  statusCode: number;
+  body: unknown;
+  headers: Record<string, unknown>;
+  chunks: string[];
+  finished: Promise<void>;
+};
+
+/** A request as the API routes see it, from a client connecting directly from `ip`. */
+export function createRequest({
+  method = 'POST',
+  body,
+  headers = {},
+  ip = '198.51.100.7'
+}: {
+  method?: string;
+  body?: unknown;
+  headers?: Record<string, string | string[]>;
+  ip?: string;
+} = {}) {
+  return { method, body, headers, query: {}, socket: { remoteAddress: ip } } as unknown as NextApiRequest;
+}
+
+/** Records what a route writes: JSON bodies, NDJSON chunks, status and headers. */
+export function createResponse(): MockResponse {
+  const emitter = new EventEmitter();
+  let finish: () => void = () => undefined;
+  const finished = new Promise<void>((resolve) => {
+    finish = resolve;
+  });
+
+  const res = Object.assign(emitter, {
+    statusCode: 200,
+    body: undefined as unknown,
+    headers: {} as Record<string, unknown>,
+    chunks: [] as string[],
+    finished,
+    setHeader(name: string, value: unknown) {
+      res.headers[name.toLowerCase()] = value;
+      return res;
+    },
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      finish();
+      return res;
+    },
+    writeHead(code: number, headers: Record<string, string> = {}) {
+      res.statusCode = code;
+      Object.entries(headers).forEach(([name, value]) => res.setHeader(name, value));
+      return res;
+    },
+    write(chunk: string) {
+      res.chunks.push(chunk);
+      return true;
+    },
+    end() {
+      finish();
+      return res;
+    }
+  });
+  return res as unknown as MockResponse;
+}
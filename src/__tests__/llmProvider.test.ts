@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { QUESTION_TYPES } from '@/lib/questionMix';
+import type { QuizPayload } from '@/types/quiz';
+import { createRequest, createResponse } from './helpers';
+
+async function generate(body: Record<string, unknown>) {
+  const { default: handler } = await import('@/pages/api/quiz');
+  const res = createResponse();
+  await handler(createRequest({ body: { mode: 'topic', topic: 'Fixture topic', ...body } }), res);
+  return res;
+}
+
+describe('fixture provider', () => {
+  beforeEach(() => {
+    vi.stubEnv('DAILY_LIMIT_GUEST', '1000');
+  });
+
+  it.each(QUESTION_TYPES)('returns every requested %s question', async (questionType) => {
+    for (const count of [10, 20]) {
+      const res = await generate({ questionType, count });
+      const quiz = res.body as QuizPayload;
+
+      expect(res.statusCode).toBe(200);
+      expect(quiz.questions).toHaveLength(count);
+      expect(quiz.questions.every((question) => question.type === questionType)).toBe(true);
+      expect(quiz.shortfall).toBeUndefined();
+    }
+  });
+
+  it('returns every question of a mixed quiz', async () => {
+    const res = await generate({ questionType: 'mixed', count: 20 });
+
+    expect((res.body as QuizPayload).questions).toHaveLength(20);
+  });
+
+  it('follows the requested true/false split', async () => {
+    const { createFixtureProvider } = await import('@/lib/llmProvider');
+    const { content } = await createFixtureProvider().complete({
+      messages: [
+        { role: 'system', content: 'Write TRUE/FALSE statements.' },
+        { role: 'user', content: 'Question count: 7\nTrue/False answers: make exactly 2 statement(s) true and 5 false' }
+      ]
+    });
+
+    const { questions } = JSON.parse(content) as { questions: { answerIndex: number }[] };
+    expect(questions.map((question) => question.answerIndex)).toEqual([0, 0, 1, 1, 1, 1, 1]);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeHints } from '@/lib/questionHints';
+import type { QuizQuestion } from '@/types/quiz';
+
+const QUESTION: QuizQuestion = {
+  type: 'multiple-choice',
+  question: 'Which planet is closest to the Sun?',
+  options: ['Mercury', 'Venus', 'Earth', 'Mars'],
+  answerIndex: 0,
+  explanation: 'Mercury orbits closest to the Sun.'
+};
+
+describe('sanitizeHints', () => {
+  it('labels both hints by the level the model gave them', () => {
+    expect(sanitizeHints(['Think about orbit size.', 'It is also the smallest planet.'], QUESTION)).toEqual([
+      { level: 'nudge', text: 'Think about orbit size.' },
+      { level: 'clue', text: 'It is also the smallest planet.' }
+    ]);
+  });
+
+  it('keeps the stronger clue labelled as a clue when the nudge is dropped', () => {
+    expect(sanitizeHints(['The answer is Mercury.', 'It is also the smallest planet.'], QUESTION)).toEqual([
+      { level: 'clue', text: 'It is also the smallest planet.' }
+    ]);
+  });
+
+  it('ignores anything past the declared levels', () => {
+    expect(sanitizeHints(['', 'Think about orbit size.', 'A third hint.'], QUESTION)).toEqual([
+      { level: 'clue', text: 'Think about orbit size.' }
+    ]);
+  });
+});
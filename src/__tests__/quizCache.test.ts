@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryCacheStore, createQuizCache, replayQuiz, type QuizCacheKeyParts } from '@/lib/quizCache';
+import type { QuizPayload } from '@/types/quiz';
+import { createRequest, createResponse } from './helpers';
+
+const mocks = vi.hoisted(() => ({ providerCalls: 0, chargeDelayMs: 0 }));
+
+// A charge that takes a while, as a Firestore transaction does, so identical requests overlap.
+vi.mock('@/lib/rateLimitGuard', () => ({
+  chargeRateLimit: vi.fn(async () => {
+    await new Promise((resolve) => setTimeout(resolve, mocks.chargeDelayMs));
+    return { docId: 'ip_test', tier: 'guest', dailyLimit: 5 };
+  })
+}));
+
+vi.mock('@/lib/llmProvider', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/llmProvider')>();
+  return {
+    ...actual,
+    getLlmProvider: () => {
+      const fixture = actual.createFixtureProvider();
+      return {
+        ...fixture,
+        stream(request: Parameters<typeof fixture.stream>[0]) {
+          mocks.providerCalls += 1;
+          return fixture.stream(request);
+        },
+        complete(request: Parameters<typeof fixture.complete>[0]) {
+          mocks.providerCalls += 1;
+          return fixture.complete(request);
+        }
+      };
+    }
+  };
+});
+
+const PARTS: QuizCacheKeyParts = {
+  mode: 'topic',
+  content: 'Photosynthesis',
+  questionType: 'multiple-choice',
+  difficulty: 'mixed',
+  count: 1,
+  language: 'English'
+};
+
+const QUIZ: QuizPayload = {
+  title: 'Photosynthesis',
+  questions: [
+    {
+      type: 'multiple-choice',
+      question: 'Which pigment absorbs light?',
+      options: ['Chlorophyll', 'Keratin', 'Melanin', 'Insulin'],
+      answerIndex: 0,
+      explanation: 'Chlorophyll absorbs red and blue light.'
+    }
+  ]
+};
+
+async function drain(events: AsyncIterable<unknown>) {
+  for await (const event of events) void event;
+}
+
+describe('quiz cache claims', () => {
+  it('makes identical lookups wait for the request that claimed the generation', async () => {
+    const cache = createQuizCache({ store: createMemoryCacheStore(), ttlMs: 60_000 });
+
+    const first = await cache.get(PARTS);
+    const second = cache.get(PARTS);
+    expect(first.claim).toBeDefined();
+
+    await drain(first.claim!.record(replayQuiz(QUIZ)));
+    expect((await second).quiz?.questions).toEqual(QUIZ.questions);
+  });
+
+  it('hands an abandoned claim to a waiting request', async () => {
+    const cache = createQuizCache({ store: createMemoryCacheStore(), ttlMs: 60_000 });
+
+    const first = await cache.get(PARTS);
+    const second = cache.get(PARTS);
+    first.claim!.abandon();
+
+    expect(await second).toMatchObject({ quiz: null, claim: expect.any(Object) });
+  });
+});
+
+describe('/api/quiz with the cache enabled', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.stubEnv('QUIZ_CACHE_TTL_SECONDS', '300');
+    mocks.providerCalls = 0;
+    mocks.chargeDelayMs = 50;
+  });
+
+  it('calls the model once for identical requests that arrive while the first is being charged', async () => {
+    const { default: handler } = await import('@/pages/api/quiz');
+    const body = { mode: 'topic', topic: 'The water cycle', count: 5 };
+    const responses = [createResponse(), createResponse()];
+
+    await Promise.all(responses.map((res) => handler(createRequest({ body }), res)));
+
+    expect(mocks.providerCalls).toBe(1);
+    expect(responses.map((res) => res.headers['x-quiz-cache'])).toEqual(['miss', 'hit']);
+    for (const res of responses) {
+      expect(res.statusCode).toBe(200);
+      expect((res.body as QuizPayload).questions).toHaveLength(5);
+    }
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, expect, it } from 'vitest';
+import { createFixtureProvider, type CompletionRequest, type LlmProvider } from '@/lib/llmProvider';
+import { generateChunkedQuiz, generateQuiz, type QuizGenerationOptions } from '@/lib/quizGenerator';
+import type { QuizPayload, QuizStreamEvent } from '@/types/quiz';
+
+const STATEMENTS = ['Mercury', 'Venus', 'Earth', 'Mars', 'Jupiter', 'Saturn', 'Uranus', 'Neptune'];
+
+/**
+ * A model that makes every statement true on the first request, and on later ones writes the statements
+ * `answerTopUps` gives them: true (0) or false (1).
+ */
+function createPlanetProvider(prompts: string[], answerTopUps: 0 | 1): LlmProvider {
+  const respond = (request: CompletionRequest) => {
+    prompts.push(request.messages.map((message) => message.content).join('\n'));
+    const answerIndex = prompts.length === 1 ? 0 : answerTopUps;
+    return JSON.stringify({
+      title: 'Planets',
+      questions: STATEMENTS.map((planet) => ({
+        question: answerIndex === 0 ? `${planet} orbits the Sun.` : `${planet} is a star.`,
+        options: ['True', 'False'],
+        answerIndex,
+        explanation: `${planet} is one of the planets of the solar system.`
+      }))
+    });
+  };
+
+  return {
+    name: 'planets',
+    model: 'planets',
+    async complete(request) {
+      return { content: respond(request) };
+    },
+    async *stream(request) {
+      yield respond(request);
+    }
+  };
+}
+
+const OPTIONS: QuizGenerationOptions = {
+  mode: 'topic',
+  content: 'The planets',
+  questionType: 'true-false',
+  difficulty: 'mixed',
+  count: 5
+};
+
+async function collectQuiz(events: AsyncIterable<QuizStreamEvent>) {
+  let quiz: QuizPayload | null = null;
+  for await (const event of events) {
+    if (event.type === 'done') quiz = event.quiz;
+  }
+  return quiz;
+}
+
+function countAnswers(quiz: QuizPayload | null) {
+  const answers = quiz?.questions.map((question) => ('answerIndex' in question ? question.answerIndex : null)) ?? [];
+  return { true: answers.filter((answer) => answer === 0).length, false: answers.filter((answer) => answer === 1).length };
+}
+
+describe('generateQuiz true/false balance', () => {
+  it('asks for the missing answer instead of accepting a one-sided quiz', async () => {
+    const prompts: string[] = [];
+
+    const quiz = await collectQuiz(generateQuiz(createPlanetProvider(prompts, 1), { ...OPTIONS, seed: 'planets' }));
+
+    expect(countAnswers(quiz)).toEqual({ true: 3, false: 2 });
+    expect(prompts).toHaveLength(2);
+    expect(prompts[1]).toMatch(/make exactly 0 statement\(s\) true and 2 false/);
+  });
+
+  it('gives the odd statement to the side the seed picks', async () => {
+    const prompts: string[] = [];
+
+    const quiz = await collectQuiz(generateQuiz(createPlanetProvider(prompts, 1), { ...OPTIONS, seed: 'moons' }));
+
+    expect(countAnswers(quiz)).toEqual({ true: 2, false: 3 });
+  });
+
+  it('fills the quiz with held-back statements only once the top-ups run out', async () => {
+    const prompts: string[] = [];
+
+    const quiz = await collectQuiz(generateQuiz(createPlanetProvider(prompts, 0), { ...OPTIONS, seed: 'planets' }));
+
+    expect(quiz?.questions).toHaveLength(5);
+    expect(quiz?.shortfall).toBeUndefined();
+    expect(countAnswers(quiz)).toEqual({ true: 5, false: 0 });
+    expect(prompts).toHaveLength(3);
+  });
+
+  it('asks for the same split whenever the seed is the same', async () => {
+    const splitFor = async (seed: string) => {
+      const prompts: string[] = [];
+      await collectQuiz(generateQuiz(createPlanetProvider(prompts, 1), { ...OPTIONS, seed }));
+      return prompts[0].match(/make exactly (\d+) statement\(s\) true and (\d+) false/)?.slice(1);
+    };
+
+    const splits = await Promise.all(['a', 'b', 'c', 'd', 'e', 'f'].map(splitFor));
+
+    expect(await Promise.all(['a', 'b', 'c', 'd', 'e', 'f'].map(splitFor))).toEqual(splits);
+    expect(new Set(splits.map((split) => split?.join('/')))).toEqual(new Set(['3/2', '2/3']));
+  });
+});
+
+/** The fixture model, recording the user prompt of every request. */
+function createRecordingProvider(prompts: string[]): LlmProvider {
+  const fixture = createFixtureProvider();
+  const record = (request: CompletionRequest) => {
+    const userMessages = request.messages.filter((message) => message.role === 'user');
+    prompts.push(userMessages.map((message) => message.content).join('\n'));
+  };
+
+  return {
+    ...fixture,
+    complete(request) {
+      record(request);
+      return fixture.complete(request);
+    },
+    stream(request) {
+      record(request);
+      return fixture.stream(request);
+    }
+  };
+}
+
+const getPromptedCounts = (prompts: string[]) =>
+  prompts.map((prompt) => Number(prompt.match(/Question count: (\d+)/)?.[1]));
+
+describe('generateChunkedQuiz', () => {
+  const CHUNKED_OPTIONS = { ...OPTIONS, mode: 'studyGuide' as const, questionType: 'multiple-choice' as const };
+  const section = (name: string, length: number) => `${name} ${'notes '.repeat(length / 6)}`.slice(0, length);
+
+  it('splits the question count across sections by their length', async () => {
+    const prompts: string[] = [];
+    const sections = [section('Cells', 600), section('Genes', 200), section('Evolution', 200)];
+
+    const provider = createRecordingProvider(prompts);
+
+    const quiz = await collectQuiz(generateChunkedQuiz(provider, { ...CHUNKED_OPTIONS, count: 7, sections }));
+
+    expect(getPromptedCounts(prompts)).toEqual([4, 2, 1]);
+    const guides = prompts.map((prompt) => prompt.match(/<study_guide>\n(\w+)/)?.[1]);
+    expect(guides).toEqual(['Cells', 'Genes', 'Evolution']);
+    expect(quiz?.questions).toHaveLength(7);
+    expect(quiz?.shortfall).toBeUndefined();
+  });
+
+  it('skips sections left without a question', async () => {
+    const prompts: string[] = [];
+    const sections = [section('Cells', 300), section('Genes', 300), section('Evolution', 300)];
+
+    const provider = createRecordingProvider(prompts);
+
+    const quiz = await collectQuiz(generateChunkedQuiz(provider, { ...CHUNKED_OPTIONS, count: 2, sections }));
+
+    expect(getPromptedCounts(prompts)).toEqual([1, 1]);
+    expect(quiz?.questions).toHaveLength(2);
+  });
+
+  it('asks later sections to avoid the questions earlier sections produced', async () => {
+    const prompts: string[] = [];
+    const sections = [section('Cells', 300), section('Genes', 300)];
+
+    const provider = createRecordingProvider(prompts);
+
+    await collectQuiz(generateChunkedQuiz(provider, { ...CHUNKED_OPTIONS, count: 4, sections }));
+
+    expect(prompts[0]).not.toContain('<previous_questions>');
+    const avoided = prompts[1].match(/<previous_questions>\n([\s\S]*?)\n<\/previous_questions>/)?.[1];
+    expect(avoided?.split('\n')).toHaveLength(2);
+  });
+
+  it('deals a mixed quiz out so the section counts add up to the mix', async () => {
+    const prompts: string[] = [];
+    const sections = [section('Cells', 400), section('Genes', 400)];
+
+    const quiz = await collectQuiz(
+      generateChunkedQuiz(createRecordingProvider(prompts), {
+        ...CHUNKED_OPTIONS,
+        questionType: 'mixed',
+        questionMix: { 'multiple-choice': 3, 'true-false': 2, ordering: 1 },
+        sections
+      })
+    );
+
+    expect(getPromptedCounts(prompts)).toEqual([3, 3]);
+    const types = quiz?.questions.map((question) => question.type) ?? [];
+    expect(types.filter((type) => type === 'multiple-choice')).toHaveLength(3);
+    expect(types.filter((type) => type === 'true-false')).toHaveLength(2);
+    expect(types.filter((type) => type === 'ordering')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,69 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRequest, createResponse } from './helpers';
+
+describe('/api/quiz under concurrent load', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.stubEnv('RATE_LIMIT_STORE', 'memory');
+    vi.stubEnv('DAILY_LIMIT_GUEST', '5');
+  });
+
+  it('never grants more credits than the daily limit', async () => {
+    const { default: handler } = await import('@/pages/api/quiz');
+    const responses = Array.from({ length: 20 }, () => createResponse());
+
+    // Distinct topics so every request generates and is charged; one credit each.
+    await Promise.all(
+      responses.map((res, index) =>
+        handler(createRequest({ body: { mode: 'topic', topic: `Cell biology ${index}`, count: 10 } }), res)
+      )
+    );
+
+    const statuses = responses.map((res) => res.statusCode);
+    expect(statuses.filter((status) => status === 200)).toHaveLength(5);
+    expect(statuses.filter((status) => status === 429)).toHaveLength(15);
+    for (const res of responses.filter((response) => response.statusCode === 429)) {
+      expect(res.body).toMatchObject({ rateLimitExceeded: true });
+    }
+  });
+
+  it('holds across the other rate-limit algorithms', async () => {
+    for (const algorithm of ['sliding-window', 'token-bucket']) {
+      vi.resetModules();
+      vi.stubEnv('RATE_LIMIT_ALGORITHM', algorithm);
+      const { default: handler } = await import('@/pages/api/quiz');
+      const responses = Array.from({ length: 12 }, () => createResponse());
+
+      await Promise.all(
+        responses.map((res, index) =>
+          handler(createRequest({ body: { mode: 'topic', topic: `Optics ${index}`, count: 10 } }), res)
+        )
+      );
+
+      expect(responses.filter((res) => res.statusCode === 200)).toHaveLength(5);
+    }
+  });
+
+  it('holds for the file store', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'quiz-rate-limit-'));
+    try {
+      vi.stubEnv('RATE_LIMIT_STORE', 'file');
+      vi.stubEnv('RATE_LIMIT_FILE', join(directory, 'limits.json'));
+      const { default: handler } = await import('@/pages/api/quiz');
+      const responses = Array.from({ length: 12 }, () => createResponse());
+
+      await Promise.all(
+        responses.map((res, index) =>
+          handler(createRequest({ body: { mode: 'topic', topic: `Genetics ${index}`, count: 10 } }), res)
+        )
+      );
+
+      expect(responses.filter((res) => res.statusCode === 200)).toHaveLength(5);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,296 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatScore,
+  getAnswerLabel,
+  getArrangementSlotResults,
+  getEditDistance,
+  gradeAnswer,
+  gradeFreeResponse,
+  gradeNumeric,
+  normalizeAnswerText,
+  parseNumericAnswer,
+  scoreArrangement,
+  scoreMultiSelect
+} from '@/lib/quizScoring';
+import type {
+  FreeResponseQuestion,
+  MatchingQuestion,
+  MultiSelectQuestion,
+  NumericQuestion,
+  OrderingQuestion
+} from '@/types/quiz';
+
+function freeResponse(answer: string, acceptedAnswers: string[] = []): FreeResponseQuestion {
+  return { type: 'short-answer', question: 'Answer this.', explanation: 'Because.', answer, acceptedAnswers };
+}
+
+describe('normalizeAnswerText', () => {
+  it.each([
+    ['The Treaty of Versailles.', 'treaty of versailles'],
+    ['  MITOCHONDRIA  ', 'mitochondria'],
+    ['an apple, a pear', 'apple pear'],
+    ['Café au lait', 'cafe au lait'],
+    ['carbon-dioxide', 'carbon dioxide'],
+    ['Theory of the atom', 'theory of atom']
+  ])('normalizes %j to %j', (text, expected) => {
+    expect(normalizeAnswerText(text)).toBe(expected);
+  });
+});
+
+describe('getEditDistance', () => {
+  it.each([
+    ['kitten', 'sitting', 3],
+    ['', 'abc', 3],
+    ['same', 'same', 0],
+    ['versailles', 'versailes', 1]
+  ])('%j to %j is %d', (a, b, distance) => {
+    expect(getEditDistance(a, b)).toBe(distance);
+  });
+});
+
+describe('gradeFreeResponse', () => {
+  it('ignores case, punctuation and articles', () => {
+    expect(gradeFreeResponse('treaty of versailles', freeResponse('The Treaty of Versailles'))).toBe(1);
+    expect(gradeFreeResponse('The MITOCHONDRIA!', freeResponse('mitochondria'))).toBe(1);
+  });
+
+  it('accepts any of the accepted variants', () => {
+    const question = freeResponse('World War II', ['Second World War', 'WWII']);
+
+    expect(gradeFreeResponse('wwii', question)).toBe(1);
+    expect(gradeFreeResponse('the second world war', question)).toBe(1);
+  });
+
+  it.each([
+    // Answers of up to four characters must match exactly.
+    ['Rome', 'Rome', 1],
+    ['Rone', 'Rome', 0],
+    // Five to nine characters allow one typo.
+    ['Nucleas', 'Nucleus', 1],
+    ['Nucliis', 'Nucleus', 0],
+    ['Austrlia', 'Australia', 1],
+    // Longer answers allow two.
+    ['Photosinthesys', 'Photosynthesis', 1],
+    ['Fotosinthesys', 'Photosynthesis', 0]
+  ])('grades %j against %j as %d', (response, answer, credit) => {
+    expect(gradeFreeResponse(response, freeResponse(answer))).toBe(credit);
+  });
+
+  it.each([
+    ['1944', '1945'],
+    ['Mars', 'Mass'],
+    ['Austria', 'Australia'],
+    ['mitosis', 'meiosis']
+  ])('rejects the near miss %j for %j', (response, answer) => {
+    expect(gradeFreeResponse(response, freeResponse(answer))).toBe(0);
+  });
+
+  it('rejects numbers that are one digit off even in longer answers', () => {
+    expect(gradeFreeResponse('Apollo 12', freeResponse('Apollo 11'))).toBe(0);
+  });
+
+  it('gives no credit for blank or punctuation-only responses', () => {
+    expect(gradeFreeResponse('   ', freeResponse('Rome'))).toBe(0);
+    expect(gradeFreeResponse('?!', freeResponse('Rome'))).toBe(0);
+    expect(gradeAnswer(freeResponse('Rome'), null)).toBe(0);
+  });
+});
+
+describe('parseNumericAnswer', () => {
+  it.each([
+    ['42', 42],
+    ['-3.5', -3.5],
+    ['+7', 7],
+    ['.5', 0.5],
+    ['1,200', 1200],
+    ['12,345,678.9', 12345678.9],
+    ['6.02e23', 6.02e23],
+    ['1.6E-19', 1.6e-19],
+    ['6.02 × 10^23', 6.02e23],
+    ['3 x 10^(-4)', 3e-4],
+    ['2*10**3', 2000],
+    ['3/4', 0.75],
+    ['1 1/2', 1.5],
+    ['-2 1/4', -2.25],
+    ['−5', -5]
+  ])('reads %j as %d', (text, value) => {
+    const parsed = parseNumericAnswer(text);
+    // Powers of ten are multiplied out, so compare up to floating-point rounding.
+    expect(Math.abs((parsed ?? NaN) - value)).toBeLessThanOrEqual(Math.abs(value) * 1e-12);
+  });
+
+  it.each([
+    ['9.8 m/s^2', 'm/s^2', 9.8],
+    ['9.8m/s^2', 'm/s^2', 9.8],
+    ['300 K', 'k', 300],
+    ['45%', '%', 45],
+    ['45 %', '%', 45]
+  ])('reads %j with the unit %j as %d', (text, unit, value) => {
+    expect(parseNumericAnswer(text, unit)).toBe(value);
+  });
+
+  it.each([
+    ['9.8 km', 'm'],
+    ['45%', undefined],
+    ['about 12', undefined],
+    ['1,20', undefined],
+    ['3/0', undefined],
+    ['', undefined]
+  ])('cannot read %j with the unit %j', (text, unit) => {
+    expect(parseNumericAnswer(text, unit)).toBeNull();
+  });
+});
+
+describe('gradeNumeric', () => {
+  const numeric = (overrides: Partial<NumericQuestion> = {}): NumericQuestion => ({
+    type: 'numeric',
+    question: 'How far?',
+    explanation: 'Because.',
+    answer: 100,
+    absoluteTolerance: 0,
+    relativeTolerance: 0,
+    ...overrides
+  });
+
+  it('requires an exact answer when both tolerances are zero, apart from floating-point noise', () => {
+    expect(gradeNumeric('100', numeric())).toBe(1);
+    expect(gradeNumeric('100.001', numeric())).toBe(0);
+    expect(gradeNumeric(String(0.1 + 0.2), numeric({ answer: 0.3 }))).toBe(1);
+  });
+
+  it('accepts answers within the absolute tolerance', () => {
+    const question = numeric({ absoluteTolerance: 0.5 });
+
+    expect(gradeNumeric('100.5', question)).toBe(1);
+    expect(gradeNumeric('99.5', question)).toBe(1);
+    expect(gradeNumeric('100.6', question)).toBe(0);
+  });
+
+  it('accepts answers within the relative tolerance, whichever tolerance is wider', () => {
+    const question = numeric({ answer: -200, absoluteTolerance: 1, relativeTolerance: 0.02 });
+
+    expect(gradeNumeric('-204', question)).toBe(1);
+    expect(gradeNumeric('-196', question)).toBe(1);
+    expect(gradeNumeric('-205', question)).toBe(0);
+  });
+
+  it('grades answers written with separators, units or scientific notation', () => {
+    const question = numeric({ answer: 1500, relativeTolerance: 0.01, unit: 'J' });
+
+    expect(gradeNumeric('1,500 J', question)).toBe(1);
+    expect(gradeNumeric('1.5e3', question)).toBe(1);
+    expect(gradeNumeric('1.5 × 10^3 J', question)).toBe(1);
+    expect(gradeNumeric('1500 kJ', question)).toBe(0);
+  });
+
+  it('gives no credit for unreadable or non-finite answers', () => {
+    expect(gradeNumeric('one hundred', numeric())).toBe(0);
+    expect(gradeNumeric('1e999', numeric({ answer: 1e308, relativeTolerance: 0.1 }))).toBe(0);
+  });
+});
+
+describe('multi-select partial credit', () => {
+  const question: MultiSelectQuestion = {
+    type: 'multi-select',
+    question: 'Which are noble gases?',
+    explanation: 'Group 18.',
+    options: ['Neon', 'Argon', 'Oxygen', 'Helium'],
+    answerIndices: [0, 1, 3]
+  };
+
+  it.each([
+    [[0, 1, 3], 1],
+    [[3, 0, 1], 1],
+    [[0, 1], 2 / 3],
+    [[0], 1 / 3],
+    [[0, 1, 2], 1 / 3],
+    [[0, 2], 0],
+    [[0, 1, 2, 3], 2 / 3],
+    [[2], 0],
+    [[], 0]
+  ])('selecting %j earns %d', (selected, credit) => {
+    expect(scoreMultiSelect(selected, question.answerIndices)).toBeCloseTo(credit);
+    expect(gradeAnswer(question, selected)).toBeCloseTo(credit);
+  });
+
+  it('never earns credit for a single index or when nothing is correct', () => {
+    expect(gradeAnswer(question, 0)).toBe(0);
+    expect(scoreMultiSelect([0, 1], [])).toBe(0);
+  });
+});
+
+describe('ordering and matching', () => {
+  const ordering: OrderingQuestion = {
+    type: 'ordering',
+    question: 'Order the planets from the Sun.',
+    explanation: 'Innermost first.',
+    items: ['Mercury', 'Venus', 'Earth', 'Mars']
+  };
+  const matching: MatchingQuestion = {
+    type: 'matching',
+    question: 'Match each element to its symbol.',
+    explanation: 'From the periodic table.',
+    pairs: [
+      { term: 'Iron', definition: 'Fe' },
+      { term: 'Gold', definition: 'Au' },
+      { term: 'Silver', definition: 'Ag' }
+    ]
+  };
+
+  it('marks each slot that holds its own item as correct', () => {
+    expect(getArrangementSlotResults([0, 1, 2, 3])).toEqual([true, true, true, true]);
+    expect(getArrangementSlotResults([1, 0, 2, 3])).toEqual([false, false, true, true]);
+    expect(getArrangementSlotResults([3, 2, 1, 0])).toEqual([false, false, false, false]);
+    expect(getArrangementSlotResults([])).toEqual([]);
+  });
+
+  it.each([
+    [[0, 1, 2, 3], 1],
+    [[1, 0, 2, 3], 0.5],
+    [[0, 2, 1, 3], 0.5],
+    [[0, 1, 3, 2], 0.5],
+    [[1, 2, 3, 0], 0],
+    [[3, 2, 1, 0], 0]
+  ])('ordering %j earns %d', (arrangement, credit) => {
+    expect(scoreArrangement(arrangement, ordering.items.length)).toBe(credit);
+    expect(gradeAnswer(ordering, arrangement)).toBe(credit);
+  });
+
+  it.each([
+    [[0, 1, 2], 1],
+    [[0, 2, 1], 1 / 3],
+    [[2, 1, 0], 1 / 3],
+    [[1, 2, 0], 0]
+  ])('matching %j earns %d', (arrangement, credit) => {
+    expect(gradeAnswer(matching, arrangement)).toBeCloseTo(credit);
+  });
+
+  it('never earns more than full credit for a padded or partial arrangement', () => {
+    expect(gradeAnswer(matching, [0, 1, 2, 3, 4])).toBe(1);
+    expect(gradeAnswer(ordering, [0, 1])).toBe(0.5);
+    expect(scoreArrangement([0], 0)).toBe(0);
+  });
+
+  it('gives no credit for answers that are not arrangements', () => {
+    expect(gradeAnswer(ordering, 0)).toBe(0);
+    expect(gradeAnswer(matching, 'Iron → Fe')).toBe(0);
+    expect(gradeAnswer(matching, null)).toBe(0);
+  });
+
+  it('labels the arrangement the player gave', () => {
+    expect(getAnswerLabel(ordering, [1, 0, 2, 3])).toBe('Venus → Mercury → Earth → Mars');
+    expect(getAnswerLabel(matching, [0, 2, 1])).toBe('Iron → Fe; Gold → Ag; Silver → Au');
+  });
+});
+
+describe('formatScore', () => {
+  it.each([
+    [5, '5'],
+    [0, '0'],
+    [8 / 3, '2.7'],
+    [4.25, '4.3'],
+    [3.5, '3.5']
+  ])('shows %d as %j', (score, label) => {
+    expect(formatScore(score)).toBe(label);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { readQuizStream } from '@/lib/quizStream';
+import { createQuizStreamParser } from '@/lib/quizStreamParser';
+import type { QuizStreamEvent } from '@/types/quiz';
+
+const QUESTION = {
+  type: 'true-false',
+  question: 'The Sun is a star.',
+  options: ['True', 'False'],
+  answerIndex: 0,
+  explanation: 'It is.'
+} as const;
+
+/** A streamed response whose body arrives in exactly the given pieces. */
+function createStreamResponse(chunks: Array<string | Uint8Array>) {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk));
+      controller.close();
+    }
+  });
+  return new Response(body);
+}
+
+async function readEvents(chunks: Array<string | Uint8Array>) {
+  const events: QuizStreamEvent[] = [];
+  await readQuizStream(createStreamResponse(chunks), (event) => events.push(event));
+  return events;
+}
+
+describe('readQuizStream', () => {
+  const meta = JSON.stringify({ type: 'meta', title: 'Space', expectedCount: 1 });
+  const question = JSON.stringify({ type: 'question', index: 0, question: QUESTION });
+
+  it('hands over each event once its line is complete', async () => {
+    const events = await readEvents([`${meta}\n${question}\n`]);
+
+    expect(events).toEqual([
+      { type: 'meta', title: 'Space', expectedCount: 1 },
+      { type: 'question', index: 0, question: QUESTION }
+    ]);
+  });
+
+  it('joins events split across chunks', async () => {
+    const text = `${meta}\n${question}\n`;
+    const chunks = text.match(/[\s\S]{1,7}/g) ?? [];
+
+    expect(await readEvents(chunks)).toHaveLength(2);
+    expect(await readEvents([meta.slice(0, 10), `${meta.slice(10)}\n`])).toEqual([JSON.parse(meta)]);
+  });
+
+  it('decodes characters whose bytes are split across chunks', async () => {
+    const line = JSON.stringify({ type: 'meta', title: 'Énergie 🌞', expectedCount: 1 });
+    const bytes = new TextEncoder().encode(`${line}\n`);
+    const split = bytes.indexOf(0xf0) + 2;
+
+    expect(await readEvents([bytes.slice(0, split), bytes.slice(split)])).toEqual([
+      { type: 'meta', title: 'Énergie 🌞', expectedCount: 1 }
+    ]);
+  });
+
+  it('reads a trailing line that has no newline and skips blank lines', async () => {
+    const events = await readEvents([`\n${meta}\n\n  \n`, question]);
+
+    expect(events.map((event) => event.type)).toEqual(['meta', 'question']);
+  });
+
+  it('passes error events on like any other event', async () => {
+    const error = JSON.stringify({ type: 'error', error: 'Rate limit reached' });
+
+    const events = await readEvents([`${meta}\n`, `${error}\n`]);
+
+    expect(events[1]).toEqual({ type: 'error', error: 'Rate limit reached' });
+  });
+
+  it('throws on a line that is not JSON, after the events before it', async () => {
+    const events: QuizStreamEvent[] = [];
+
+    await expect(
+      readQuizStream(createStreamResponse([`${meta}\n{"type":"question",`]), (event) => events.push(event))
+    ).rejects.toThrow(SyntaxError);
+    expect(events).toHaveLength(1);
+  });
+
+  it('refuses a response without a body', async () => {
+    await expect(readQuizStream(new Response(null), () => undefined)).rejects.toThrow('Quiz stream is unavailable');
+  });
+});
+
+describe('createQuizStreamParser', () => {
+  const document = JSON.stringify({
+    title: 'Space "facts"',
+    questions: [QUESTION, { ...QUESTION, question: 'Braces {x} and [y].' }]
+  });
+
+  it('returns each question as soon as its object closes, however the output is chunked', () => {
+    for (const size of [1, 5, 64, document.length]) {
+      const parser = createQuizStreamParser();
+      const questions: unknown[] = [];
+      for (let offset = 0; offset < document.length; offset += size) {
+        questions.push(...parser.push(document.slice(offset, offset + size)));
+      }
+
+      expect(questions).toEqual([QUESTION, { ...QUESTION, question: 'Braces {x} and [y].' }]);
+      expect(parser.getTitle()).toBe('Space "facts"');
+    }
+  });
+
+  it('holds back a question until the chunk that finishes it', () => {
+    const parser = createQuizStreamParser();
+    const cut = document.indexOf('"explanation"');
+
+    expect(parser.push(document.slice(0, cut))).toEqual([]);
+    expect(parser.hasQuestionsArray()).toBe(true);
+    expect(parser.push(document.slice(cut))).toHaveLength(2);
+  });
+
+  it('reports a broken question as null so validation can count it', () => {
+    const parser = createQuizStreamParser();
+
+    expect(parser.push('{"title":"Space","questions":[{"question": "Sun", oops}, ')).toEqual([null]);
+    expect(parser.push(`${JSON.stringify(QUESTION)}]}`)).toEqual([QUESTION]);
+  });
+
+  it('ignores everything after the questions array closes', () => {
+    const parser = createQuizStreamParser();
+    const output = `{"questions":[${JSON.stringify(QUESTION)}], "extra": [{"question": "x"}]}`;
+
+    expect(parser.push(output)).toEqual([QUESTION]);
+    expect(parser.push('{"question": "late"}')).toEqual([]);
+  });
+
+  it('waits for output that has no questions array yet', () => {
+    const parser = createQuizStreamParser();
+
+    expect(parser.push('Here is your quiz: {"title": "Sp')).toEqual([]);
+    expect(parser.hasQuestionsArray()).toBe(false);
+    expect(parser.getTitle()).toBe('');
+  });
+});
@@ -0,0 +1,259 @@
+import { describe, expect, it } from 'vitest';
+import { validateQuestion } from '@/lib/quizValidation';
+
+const CAPITALS = ['Paris', 'Rome', 'Berlin', 'Madrid'];
+
+function multipleChoice(fields: Record<string, unknown>) {
+  return validateQuestion(
+    {
+      question: 'What is the capital of France?',
+      explanation: 'Paris is the capital.',
+      options: CAPITALS,
+      answerIndex: 0,
+      ...fields
+    },
+    'multiple-choice'
+  );
+}
+
+describe('validateQuestion for missing fields', () => {
+  it.each([
+    ['question text', { question: '  ' }, 'Missing question text'],
+    ['explanation', { explanation: undefined }, 'Missing explanation'],
+    ['options', { options: 'Paris, Rome' }, 'Options must be an array'],
+    ['answer', { answerIndex: undefined }, 'answerIndex must be between 0 and 3']
+  ])('rejects a question without its %s', (_, fields, error) => {
+    const result = multipleChoice(fields);
+
+    expect(result.question).toBeNull();
+    expect(result.errors).toContain(error);
+  });
+
+  it('rejects anything that is not a question object', () => {
+    expect(validateQuestion(null, 'multiple-choice').errors).toEqual(['Question is not an object']);
+    expect(validateQuestion(['Paris'], 'multiple-choice').question).toBeNull();
+  });
+
+  it.each([
+    ['short-answer', { answer: '' }, 'Missing answer'],
+    ['matching', { pairs: undefined }, 'Pairs must be an array'],
+    [
+      'matching',
+      { pairs: [{ term: 'Iron' }, { term: 'Gold', definition: 'Au' }, { term: 'Tin', definition: 'Sn' }] },
+      'Every pair needs a term and a definition'
+    ],
+    ['ordering', { items: undefined }, 'Items must be an array']
+  ] as const)('rejects a %s question missing a field', (questionType, fields, error) => {
+    const result = validateQuestion({ question: 'Answer this.', explanation: 'Because.', ...fields }, questionType);
+
+    expect(result.question).toBeNull();
+    expect(result.errors).toContain(error);
+  });
+});
+
+describe('validateQuestion for answer indices', () => {
+  it.each([[4], [-1], [1.5], ['seven']])('rejects the multiple-choice answerIndex %j', (answerIndex) => {
+    expect(multipleChoice({ answerIndex }).question).toBeNull();
+  });
+
+  it('rejects a true/false answer other than 0 or 1', () => {
+    const result = validateQuestion(
+      { question: 'The Sun is a star.', explanation: 'It is.', options: ['True', 'False'], answerIndex: 2 },
+      'true-false'
+    );
+
+    expect(result.question).toBeNull();
+    expect(result.errors).toContain('answerIndex must be 0 (True) or 1 (False)');
+  });
+
+  it('rejects multi-select answers outside the options or with too many correct', () => {
+    const multiSelect = (answerIndices: unknown) =>
+      validateQuestion(
+        { question: 'Pick capitals.', explanation: 'All are.', options: CAPITALS, answerIndices },
+        'multi-select'
+      );
+
+    expect(multiSelect([0, 4]).question).toBeNull();
+    expect(multiSelect([]).question).toBeNull();
+    expect(multiSelect([0, 1, 2, 3]).errors).toContain(
+      'Multi-select questions must have between 1 and 3 correct options'
+    );
+  });
+});
+
+describe('validateQuestion for duplicate options', () => {
+  it('collapses repeated options and keeps the answer pointing at the same text', () => {
+    const result = multipleChoice({ options: ['Rome', 'rome', 'Paris', 'Berlin', 'Madrid'], answerIndex: 2 });
+
+    expect(result).toMatchObject({
+      question: { options: ['Rome', 'Paris', 'Berlin', 'Madrid'], answerIndex: 1 },
+      repaired: true,
+      errors: []
+    });
+  });
+
+  it('rejects a question left with too few distinct options', () => {
+    const result = multipleChoice({ options: ['Paris', 'Rome', 'ROME', 'Berlin'] });
+
+    expect(result.question).toBeNull();
+    expect(result.errors).toContain('Options must contain 4 distinct, non-empty choices');
+  });
+
+  it('rejects duplicate terms in matching and duplicate items in ordering', () => {
+    const pairs = [
+      { term: 'Iron', definition: 'Fe' },
+      { term: 'iron', definition: 'Au' },
+      { term: 'Tin', definition: 'Sn' }
+    ];
+
+    expect(validateQuestion({ question: 'Match.', explanation: 'Symbols.', pairs }, 'matching').errors).toContain(
+      'Terms and definitions must be distinct'
+    );
+    const items = ['Moon', 'Earth', 'Moon'];
+    expect(validateQuestion({ question: 'Order.', explanation: 'Sizes.', items }, 'ordering').errors).toContain(
+      'Items must be distinct'
+    );
+  });
+});
+
+describe('validateQuestion for repairable output', () => {
+  it('accepts a clean question without marking it repaired', () => {
+    expect(multipleChoice({})).toMatchObject({
+      question: { options: CAPITALS, answerIndex: 0 },
+      repaired: false,
+      errors: []
+    });
+  });
+
+  it('strips option labels and trims whitespace', () => {
+    expect(multipleChoice({ options: ['A) Paris ', 'B) Rome', 'C) Berlin', 'D) Madrid'] })).toMatchObject({
+      question: { options: CAPITALS, answerIndex: 0 },
+      repaired: true
+    });
+  });
+
+  it('keeps numbered options when only some of them carry a label', () => {
+    const options = ['1. Ordered list', 'Bullets', 'Tables', 'Headings'];
+
+    expect(multipleChoice({ options }).question).toMatchObject({ options });
+  });
+
+  it('reads an answer given as a numeric string or as the option text', () => {
+    expect(multipleChoice({ answerIndex: '2' })).toMatchObject({ question: { answerIndex: 2 }, repaired: true });
+    expect(multipleChoice({ answerIndex: undefined, answer: 'madrid' })).toMatchObject({
+      question: { answerIndex: 3 },
+      repaired: true
+    });
+  });
+
+  it('normalizes reversed or lowercase true/false options', () => {
+    const result = validateQuestion(
+      { question: 'The Sun is a star.', explanation: 'It is.', options: ['false', 'true'], answerIndex: 1 },
+      'true-false'
+    );
+
+    expect(result).toMatchObject({
+      question: { options: ['True', 'False'], answerIndex: 0 },
+      repaired: true,
+      errors: []
+    });
+  });
+
+  it('drops surplus distractors but never the correct option', () => {
+    const result = multipleChoice({ options: [...CAPITALS, 'Lisbon', 'Vienna'], answerIndex: 5 });
+
+    expect(result).toMatchObject({
+      question: { options: ['Paris', 'Rome', 'Berlin', 'Vienna'], answerIndex: 3 },
+      repaired: true
+    });
+  });
+
+  it('reads multi-select answers given as option text', () => {
+    const result = validateQuestion(
+      { question: 'Pick capitals.', explanation: 'Both are.', options: CAPITALS, answers: ['Rome', 'Paris'] },
+      'multi-select'
+    );
+
+    expect(result).toMatchObject({ question: { answerIndices: [0, 1] }, repaired: true });
+  });
+
+  it('turns a [blank] placeholder into underscores and drops repeated accepted answers', () => {
+    const result = validateQuestion(
+      {
+        question: 'The powerhouse of the cell is the [blank].',
+        explanation: 'It makes ATP.',
+        answer: 'mitochondria',
+        acceptedAnswers: ['Mitochondria', 'mitochondrion']
+      },
+      'fill-in-the-blank'
+    );
+
+    expect(result).toMatchObject({
+      question: { question: 'The powerhouse of the cell is the _____.', acceptedAnswers: ['mitochondrion'] },
+      repaired: true
+    });
+  });
+
+  it('reads left/right matching pairs and numbered ordering items', () => {
+    const pairs = [
+      { left: 'Iron', right: 'Fe' },
+      { left: 'Gold', right: 'Au' },
+      { left: 'Tin', right: 'Sn' }
+    ];
+
+    const items = ['1. Moon', '2. Earth', '3. Sun'];
+
+    expect(validateQuestion({ question: 'Match.', explanation: 'Symbols.', pairs }, 'matching')).toMatchObject({
+      question: {
+        pairs: [
+          { term: 'Iron', definition: 'Fe' },
+          { term: 'Gold', definition: 'Au' },
+          { term: 'Tin', definition: 'Sn' }
+        ]
+      },
+      repaired: true
+    });
+    expect(validateQuestion({ question: 'Order.', explanation: 'Sizes.', items }, 'ordering')).toMatchObject({
+      question: { items: ['Moon', 'Earth', 'Sun'] },
+      repaired: true
+    });
+  });
+});
+
+describe('validateQuestion for numeric questions', () => {
+  const numeric = (fields: Record<string, unknown>) =>
+    validateQuestion({ question: 'How far?', explanation: 'Because.', ...fields }, 'numeric');
+
+  it('keeps tolerances within the caps', () => {
+    expect(numeric({ answer: 100, absoluteTolerance: 10, relativeTolerance: 0.1 })).toMatchObject({
+      question: { answer: 100, absoluteTolerance: 10, relativeTolerance: 0.1 },
+      errors: []
+    });
+    expect(numeric({ answer: 0, absoluteTolerance: 0.5 }).errors).toEqual([]);
+  });
+
+  it.each([
+    ['an absolute tolerance wider than a tenth of the answer', { answer: 100, absoluteTolerance: 11 }],
+    ['an absolute tolerance that accepts every number', { answer: 9.8, tolerance: 1e9 }],
+    ['a wide absolute tolerance around zero', { answer: 0, absoluteTolerance: 2 }],
+    ['a relative tolerance over the cap', { answer: 100, relativeTolerance: 0.5 }],
+    ['a negative tolerance', { answer: 100, absoluteTolerance: -1 }],
+    ['an answer that is not a number', { answer: 'about a hundred' }]
+  ])('rejects %s', (_, fields) => {
+    const result = numeric(fields);
+
+    expect(result.question).toBeNull();
+    expect(result.errors).not.toHaveLength(0);
+  });
+
+  it('reads percentages as fractions and answers written with their unit', () => {
+    expect(numeric({ answer: '9.8 m/s^2', unit: 'm/s^2', relativeTolerance: 5 })).toMatchObject({
+      question: { answer: 9.8, relativeTolerance: 0.05, unit: 'm/s^2' },
+      repaired: true
+    });
+  });
+
+  it('defaults to a 1% tolerance when none is given', () => {
+    expect(numeric({ answer: 1500 }).question).toMatchObject({ absoluteTolerance: 0, relativeTolerance: 0.01 });
+  });
+});
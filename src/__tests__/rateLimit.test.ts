@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createRateLimiter } from '@/lib/rateLimit';
+import { createFixedWindowAlgorithm } from '@/lib/rateLimitAlgorithms';
+import { createMemoryRateLimitStore } from '@/lib/rateLimitStore';
+
+const IP = '198.51.100.7';
+
+function createLimiter(accountTiers: Record<string, string> = {}) {
+  return createRateLimiter({ store: createMemoryRateLimitStore(accountTiers), algorithm: createFixedWindowAlgorithm() });
+}
+
+describe('rate limiting signed-in users', () => {
+  it('charges free accounts to a ceiling shared by their IP address', async () => {
+    vi.stubEnv('DAILY_LIMIT_PER_IP', '15');
+    const limiter = createLimiter();
+    const allowed: string[] = [];
+
+    for (const uid of ['alice', 'bob', 'carol']) {
+      const identity = await limiter.getIdentity(IP, uid);
+      for (let request = 0; request < 10; request += 1) {
+        if ((await limiter.check(identity, 1)).allowed) allowed.push(uid);
+      }
+    }
+
+    expect(allowed).toHaveLength(15);
+    const refused = await limiter.check(await limiter.getIdentity(IP, 'dave'), 1);
+    expect(refused).toMatchObject({ allowed: false, reason: expect.stringContaining('on this network') });
+  });
+
+  it('leaves the account untouched when the IP ceiling refuses the charge', async () => {
+    vi.stubEnv('DAILY_LIMIT_PER_IP', '3');
+    const store = createMemoryRateLimitStore();
+    const limiter = createRateLimiter({ store, algorithm: createFixedWindowAlgorithm() });
+    await limiter.check(await limiter.getIdentity(IP, 'alice'), 3);
+
+    expect((await limiter.check(await limiter.getIdentity(IP, 'bob'), 1)).allowed).toBe(false);
+    expect(await store.get('user_bob')).toBeUndefined();
+  });
+
+  it('reports the smaller of the account and IP allowances', async () => {
+    vi.stubEnv('DAILY_LIMIT_PER_IP', '12');
+    const limiter = createLimiter();
+    await limiter.check(await limiter.getIdentity(IP, 'alice'), 8);
+
+    expect(await limiter.getStatus(await limiter.getIdentity(IP, 'bob'))).toMatchObject({ daily: 4, dailyLimit: 10 });
+  });
+
+  it('exempts tiers an admin assigned from the IP ceiling', async () => {
+    vi.stubEnv('DAILY_LIMIT_PER_IP', '1');
+    const limiter = createLimiter({ teacher: 'teacher' });
+    const identity = await limiter.getIdentity(IP, 'teacher');
+
+    expect(identity.tier).toBe('teacher');
+    expect(identity.ipCeiling).toBeUndefined();
+    expect((await limiter.check(identity, 5)).allowed).toBe(true);
+  });
+
+  it('never grants more than the IP ceiling to concurrent requests from many accounts', async () => {
+    vi.stubEnv('DAILY_LIMIT_PER_IP', '20');
+    const limiter = createLimiter();
+    const identities = await Promise.all(Array.from({ length: 8 }, (_, index) => limiter.getIdentity(IP, `user${index}`)));
+
+    const results = await Promise.all(identities.flatMap((identity) => Array.from({ length: 5 }, () => limiter.check(identity, 1))));
+
+    expect(results.filter((result) => result.allowed)).toHaveLength(20);
+  });
+});
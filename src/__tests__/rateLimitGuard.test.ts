@@ -0,0 +1,117 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRequest, createResponse } from './helpers';
+
+describe('chargeRateLimit without Firebase', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.stubEnv('RATE_LIMIT_STORE', 'memory');
+    for (const name of Object.keys(process.env).filter((key) => key.startsWith('NEXT_PUBLIC_FIREBASE_'))) {
+      vi.stubEnv(name, '');
+    }
+  });
+
+  it('imports and charges guests with the memory store', async () => {
+    const { chargeRateLimit } = await import('@/lib/rateLimitGuard');
+    const res = createResponse();
+
+    const identity = await chargeRateLimit(createRequest(), res, 1);
+
+    expect(identity).toMatchObject({ tier: 'guest' });
+    expect(res.headers['x-ratelimit-remaining-daily']).toBe('4');
+  });
+
+  it('meters usage and reports it through the same store', async () => {
+    const { chargeRateLimit } = await import('@/lib/rateLimitGuard');
+    const { getUsageHistory, recordUsage } = await import('@/lib/usageMetering');
+    const identity = await chargeRateLimit(createRequest(), createResponse(), 1);
+    if (!identity) throw new Error('expected the charge to succeed');
+
+    await recordUsage(identity, {
+      endpoint: 'quiz',
+      model: 'fixture',
+      usage: { promptTokens: 100, completionTokens: 40 },
+      credits: 1
+    });
+
+    expect(await getUsageHistory(identity, 1)).toEqual([
+      expect.objectContaining({ requests: 1, credits: 1, promptTokens: 100, completionTokens: 40 })
+    ]);
+  });
+
+  it('enforces token ceilings from the memory store', async () => {
+    vi.stubEnv('DAILY_TOKEN_CEILING_PER_CALLER', '100');
+    const { chargeRateLimit } = await import('@/lib/rateLimitGuard');
+    const { recordUsage } = await import('@/lib/usageMetering');
+    const identity = await chargeRateLimit(createRequest(), createResponse(), 1);
+    if (!identity) throw new Error('expected the charge to succeed');
+    await recordUsage(identity, {
+      endpoint: 'quiz',
+      model: 'fixture',
+      usage: { promptTokens: 80, completionTokens: 40 },
+      credits: 1
+    });
+
+    const res = createResponse();
+    expect(await chargeRateLimit(createRequest(), res, 1)).toBeNull();
+    expect(res.statusCode).toBe(429);
+    expect(res.body).toMatchObject({ usageCeilingExceeded: true });
+  });
+
+  it('refuses a request that costs more than the whole plan without spending credits', async () => {
+    const { chargeRateLimit } = await import('@/lib/rateLimitGuard');
+    const res = createResponse();
+
+    expect(await chargeRateLimit(createRequest(), res, 6)).toBeNull();
+    expect(res.statusCode).toBe(413);
+    expect(res.body).toMatchObject({ tooLargeForPlan: true });
+    expect(res.body).not.toHaveProperty('rateLimitExceeded');
+
+    const next = createResponse();
+    await chargeRateLimit(createRequest(), next, 1);
+    expect(next.headers['x-ratelimit-remaining-daily']).toBe('4');
+  });
+});
+
+describe('logBlockedContent', () => {
+  beforeEach(() => {
+    vi.resetModules();
+  });
+
+  it('writes reports to the configured store instead of Firestore', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'moderation-log-'));
+    const filePath = join(directory, 'rate-limits.json');
+    vi.stubEnv('RATE_LIMIT_STORE', 'file');
+    vi.stubEnv('RATE_LIMIT_FILE', filePath);
+    vi.doMock('@/lib/firebaseAdmin', () => {
+      throw new Error('Firebase must not be loaded');
+    });
+
+    try {
+      const { logBlockedContent } = await import('@/lib/moderationLog');
+      await logBlockedContent({
+        stage: 'input',
+        categories: ['violence'],
+        classifier: 'keyword',
+        text: 'how to build a bomb',
+        clientIp: '198.51.100.7'
+      });
+
+      const { moderationLog } = JSON.parse(await readFile(filePath, 'utf8'));
+      expect(moderationLog).toEqual([
+        expect.objectContaining({
+          stage: 'input',
+          categories: ['violence'],
+          excerpt: 'how to build a bomb',
+          ipHash: expect.stringMatching(/^[0-9a-f]{64}$/),
+          createdAt: expect.any(String)
+        })
+      ]);
+    } finally {
+      vi.doUnmock('@/lib/firebaseAdmin');
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { createSourceVerifier, formatPageMarker } from '@/lib/sourceCitations';
+
+const GUIDE = [
+  formatPageMarker(1),
+  'Photosynthesis takes place in the chloroplasts of plant cells.',
+  '',
+  formatPageMarker(2),
+  'The light-dependent reactions split water and release oxygen. The Calvin cycle then',
+  formatPageMarker(3),
+  'fixes carbon dioxide into sugar.'
+].join('\n');
+
+describe('createSourceVerifier', () => {
+  const verifier = createSourceVerifier(GUIDE);
+
+  it('accepts a quote copied exactly from the guide', () => {
+    expect(verifier.verify('Photosynthesis takes place in the chloroplasts of plant cells.')).toEqual({
+      quote: 'Photosynthesis takes place in the chloroplasts of plant cells',
+      page: 1
+    });
+  });
+
+  it('matches after normalizing case, punctuation and whitespace, and quotes the guide itself', () => {
+    expect(verifier.verify('  the LIGHT dependent   reactions\nsplit water, and release oxygen ')).toEqual({
+      quote: 'The light-dependent reactions split water and release oxygen',
+      page: 2
+    });
+  });
+
+  it('reads the quote from a citation object', () => {
+    expect(verifier.verify({ quote: 'release oxygen. The Calvin cycle' })).toMatchObject({ page: 2 });
+    expect(verifier.verify({ text: 'fixes carbon dioxide into sugar' })).toMatchObject({ page: 3 });
+  });
+
+  it('rejects a quote the guide does not contain', () => {
+    expect(verifier.verify('Photosynthesis takes place in the mitochondria of animal cells.')).toBeNull();
+    expect(verifier.verify('Chlorophyll absorbs mostly green light.')).toBeNull();
+  });
+
+  it('rejects quotes too short to show where a question came from', () => {
+    expect(verifier.verify('plant cells')).toBeNull();
+    expect(verifier.verify('')).toBeNull();
+    expect(verifier.verify(42)).toBeNull();
+    expect(verifier.verify({ quote: null })).toBeNull();
+  });
+
+  it('gives the page a quote starts on, even when it runs across a page break', () => {
+    expect(verifier.verify('The Calvin cycle then fixes carbon dioxide into sugar.')).toEqual({
+      quote: 'The Calvin cycle then fixes carbon dioxide into sugar',
+      page: 2
+    });
+    expect(verifier.verify('The Calvin cycle then [Page 3] fixes carbon dioxide')).toMatchObject({ page: 2 });
+  });
+
+  it('leaves the page out for guides without page markers', () => {
+    const citation = createSourceVerifier('Plain notes: the mitochondria make ATP for the cell.').verify(
+      'the mitochondria make ATP'
+    );
+
+    expect(citation).toEqual({ quote: 'the mitochondria make ATP' });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { selectSections, splitStudyGuide } from '@/lib/studyGuideSections';
+
+const paragraph = (label: string, length: number) => `${label} ${'x'.repeat(length - label.length - 1)}`;
+
+describe('splitStudyGuide', () => {
+  it('keeps a short guide in one section titled by its first line', () => {
+    const sections = splitStudyGuide('Cell biology\r\nCells are the unit of life.\r\n\r\nThey divide.');
+
+    expect(sections).toEqual([
+      { index: 0, title: 'Cell biology', content: 'Cell biology\nCells are the unit of life.\n\nThey divide.' }
+    ]);
+  });
+
+  it('returns no sections for a blank guide', () => {
+    expect(splitStudyGuide('  \n\n  ')).toEqual([]);
+  });
+
+  it('breaks between paragraphs without going over the limit', () => {
+    const text = [paragraph('One', 40), paragraph('Two', 40), paragraph('Three', 40)].join('\n\n');
+
+    const sections = splitStudyGuide(text, 90);
+
+    expect(sections.map((section) => section.content)).toEqual([
+      `${paragraph('One', 40)}\n\n${paragraph('Two', 40)}`,
+      paragraph('Three', 40)
+    ]);
+    expect(sections.map((section) => section.index)).toEqual([0, 1]);
+  });
+
+  it('splits a paragraph longer than the limit between sentences, and a run-on sentence at the limit', () => {
+    const sentences = 'Mitosis makes two cells. Meiosis makes four cells. Both start from one cell.';
+
+    expect(splitStudyGuide(sentences, 50).map((section) => section.content)).toEqual([
+      'Mitosis makes two cells. Meiosis makes four cells.',
+      'Both start from one cell.'
+    ]);
+    expect(splitStudyGuide('y'.repeat(25), 10).map((section) => section.content)).toEqual([
+      'y'.repeat(10),
+      'y'.repeat(10),
+      'y'.repeat(5)
+    ]);
+  });
+
+  it('never produces a section over the limit', () => {
+    const paragraphs = Array.from({ length: 30 }, (_, index) => paragraph(`Paragraph ${index}.`, 20 + index * 7));
+    const text = paragraphs.join('\n\n');
+
+    for (const section of splitStudyGuide(text, 200)) {
+      expect(section.content.length).toBeLessThanOrEqual(200);
+    }
+  });
+
+  it('skips PDF page markers and shortens long titles', () => {
+    const [section] = splitStudyGuide(`[Page 3]\n${'Photosynthesis '.repeat(6)}\nLight becomes sugar.`);
+
+    expect(section.title).toHaveLength(60);
+    expect(section.title).toMatch(/^Photosynthesis Photosynthesis .*…$/);
+  });
+});
+
+describe('selectSections', () => {
+  const text = [paragraph('One', 40), paragraph('Two', 40), paragraph('Three', 40)].join('\n\n');
+  const sections = splitStudyGuide(text, 50);
+
+  it('keeps every section when nothing is selected', () => {
+    expect(selectSections(sections, undefined)).toBe(sections);
+  });
+
+  it('keeps the selected sections in guide order', () => {
+    expect(selectSections(sections, [2, 0])?.map((section) => section.index)).toEqual([0, 2]);
+  });
+
+  it.each([
+    ['an empty list', []],
+    ['an index past the last section', [0, 3]],
+    ['a negative index', [-1]],
+    ['a fractional index', [1.5]],
+    ['a numeric string', ['1']],
+    ['a bare number', 1],
+    ['null', null]
+  ])('rejects %s', (_, selection) => {
+    expect(selectSections(sections, selection)).toBeNull();
+  });
+
+  it('rejects any selection when the guide has no sections', () => {
+    expect(selectSections([], [0])).toBeNull();
+    expect(selectSections([], undefined)).toEqual([]);
+  });
+});
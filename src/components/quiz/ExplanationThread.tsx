@@ -0,0 +1,116 @@
+import { useState, type FormEvent } from 'react';
+import * as Icons from 'lucide-react';
+import { useAuth } from '@/context/AuthContext';
+import { getAuthHeaders } from '@/lib/authHeaders';
+import { EXPLANATION_COST } from '@/lib/creditCosts';
+import { MAX_FOLLOW_UP_CHARS, MAX_THREAD_MESSAGES } from '@/lib/followUpExplanations';
+import type { AnswerValue } from '@/lib/quizScoring';
+import type { ExplanationMessage, QuizQuestion } from '@/types/quiz';
+
+interface ExplanationThreadProps {
+  question: QuizQuestion;
+  selected: AnswerValue;
+  /** Language code the tutor replies in. */
+  language?: string;
+  /** Called after each reply so the caller can refresh the remaining daily credits. */
+  onReply?: () => void;
+}
+
+/** "Explain this more" for one reviewed question, with a short follow-up conversation. */
+export function ExplanationThread({ question, selected, language, onReply }: ExplanationThreadProps) {
+  const { user } = useAuth();
+  const [thread, setThread] = useState<ExplanationMessage[]>([]);
+  const [followUp, setFollowUp] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const canAskFollowUp = thread.length > 0 && thread.length < MAX_THREAD_MESSAGES;
+
+  const requestReply = async (nextThread: ExplanationMessage[]) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/explain', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders(user)) },
+        body: JSON.stringify({ question, selected, thread: nextThread, language })
+      });
+      const data = (await res.json()) as { reply?: string; token?: string; error?: string };
+      if (!res.ok || !data.reply) {
+        throw new Error(data.error || 'Failed to load explanation');
+      }
+
+      // The token lets the server recognise this reply when the thread is sent back with a follow-up.
+      setThread([...nextThread, { role: 'assistant', content: data.reply, token: data.token }]);
+      setFollowUp('');
+      onReply?.();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load explanation');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmitFollowUp = (event: FormEvent) => {
+    event.preventDefault();
+    const content = followUp.trim();
+    if (!content || isLoading || !canAskFollowUp) return;
+    requestReply([...thread, { role: 'user', content }]);
+  };
+
+  if (!thread.length) {
+    return (
+      <div className="mt-3">
+        <button
+          type="button"
+          onClick={() => requestReply([])}
+          onKeyDown={(event) => event.stopPropagation()}
+          disabled={isLoading}
+          className="inline-flex items-center gap-1 text-xs text-glow hover:text-white transition disabled:opacity-50"
+        >
+          <Icons.MessageCircle className="h-3.5 w-3.5" />
+          {isLoading ? 'Thinking...' : `Explain this more (${EXPLANATION_COST} credit)`}
+        </button>
+        {error && <p className="mt-1 text-xs text-red-400">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 space-y-2 rounded-xl border border-white/10 bg-black/20 p-3">
+      {thread.map((message, index) => (
+        <div
+          key={index}
+          className={`whitespace-pre-line text-xs ${message.role === 'assistant' ? 'text-white/80' : 'text-right text-sky-200'}`}
+        >
+          {message.content}
+        </div>
+      ))}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      {canAskFollowUp ? (
+        <form onSubmit={handleSubmitFollowUp} className="flex gap-2">
+          <input
+            type="text"
+            value={followUp}
+            onChange={(event) => setFollowUp(event.target.value)}
+            onKeyDown={(event) => event.stopPropagation()}
+            maxLength={MAX_FOLLOW_UP_CHARS}
+            disabled={isLoading}
+            placeholder="Ask a follow-up question"
+            aria-label="Follow-up question"
+            className="flex-1 rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-xs text-white placeholder:text-white/40 focus:border-white/30 focus:outline-none"
+          />
+          <button
+            type="submit"
+            disabled={isLoading || !followUp.trim()}
+            className="rounded-lg border border-white/15 px-3 py-2 text-xs text-white/80 hover:text-white disabled:opacity-40"
+          >
+            {isLoading ? 'Thinking...' : 'Ask'}
+          </button>
+        </form>
+      ) : (
+        <p className="text-xs text-white/40">Follow-up limit reached for this question.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState, type DragEvent, type KeyboardEvent } from 'react';
+import * as Icons from 'lucide-react';
+
+interface SortableListProps {
+  /** Labels in their current display order. */
+  items: string[];
+  /** Fixed labels shown beside each slot, e.g. the terms in a matching question. */
+  slotLabels?: string[];
+  onMove: (from: number, to: number) => void;
+  disabled?: boolean;
+  /** Per-slot result shown after the answer is submitted. */
+  results?: { correct: boolean; expected: string }[];
+}
+
+/**
+ * Drag-and-drop list with move up/down buttons so every arrangement can also be made with the keyboard.
+ */
+export function SortableList({ items, slotLabels, onMove, disabled, results }: SortableListProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const handleDragStart = (event: DragEvent<HTMLDivElement>, index: number) => {
+    event.dataTransfer.effectAllowed = 'move';
+    event.dataTransfer.setData('text/plain', String(index));
+    setDragIndex(index);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>, index: number) => {
+    event.preventDefault();
+    if (dragIndex !== null && dragIndex !== index) {
+      onMove(dragIndex, index);
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  // Keep Enter/Space on the move buttons from also reaching the quiz-level submit shortcut.
+  const stopShortcut = (event: KeyboardEvent<HTMLButtonElement>) => event.stopPropagation();
+
+  return (
+    <ol className="space-y-3">
+      {items.map((item, index) => {
+        const result = results?.[index];
+        let className =
+          'flex flex-1 items-center gap-3 rounded-2xl border px-4 py-3 text-left text-sm sm:text-base transition ';
+
+        if (result) {
+          className += result.correct
+            ? 'border-green-500 bg-green-500/20 text-green-300'
+            : 'border-red-500 bg-red-500/20 text-red-300';
+        } else if (dropIndex === index && dragIndex !== index) {
+          className += 'border-glow bg-glow/20 text-white';
+        } else {
+          className += 'border-white/10 bg-white/5 text-white/80';
+        }
+
+        return (
+          <li key={item} className="flex flex-col gap-2 sm:flex-row sm:items-stretch">
+            {slotLabels && (
+              <div className="flex items-center rounded-2xl border border-white/10 bg-white/10 px-4 py-3 text-sm font-semibold text-white sm:w-2/5">
+                {slotLabels[index]}
+              </div>
+            )}
+            <div
+              draggable={!disabled}
+              onDragStart={(event) => handleDragStart(event, index)}
+              onDragOver={(event) => {
+                event.preventDefault();
+                setDropIndex(index);
+              }}
+              onDragLeave={() => setDropIndex((current) => (current === index ? null : current))}
+              onDrop={(event) => handleDrop(event, index)}
+              onDragEnd={() => {
+                setDragIndex(null);
+                setDropIndex(null);
+              }}
+              className={`${className} ${disabled ? '' : 'cursor-grab active:cursor-grabbing'}`}
+            >
+              {!disabled && <Icons.GripVertical className="h-4 w-4 flex-shrink-0 text-white/40" />}
+              <div className="flex-1">
+                <p>{item}</p>
+                {result && !result.correct && <p className="mt-1 text-xs text-green-300">Correct: {result.expected}</p>}
+              </div>
+              {!disabled && (
+                <div className="flex flex-shrink-0 flex-col gap-1">
+                  <button
+                    type="button"
+                    onClick={() => onMove(index, index - 1)}
+                    onKeyDown={stopShortcut}
+                    disabled={index === 0}
+                    aria-label={`Move "${item}" up`}
+                    className="rounded-md border border-white/15 p-1 text-white/60 hover:text-white disabled:opacity-30"
+                  >
+                    <Icons.ChevronUp className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onMove(index, index + 1)}
+                    onKeyDown={stopShortcut}
+                    disabled={index === items.length - 1}
+                    aria-label={`Move "${item}" down`}
+                    className="rounded-md border border-white/15 p-1 text-white/60 hover:text-white disabled:opacity-30"
+                  >
+                    <Icons.ChevronDown className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
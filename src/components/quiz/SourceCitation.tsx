@@ -0,0 +1,33 @@
+import { useState } from 'react';
+import * as Icons from 'lucide-react';
+import type { SourceCitation as Citation } from '@/types/quiz';
+
+interface SourceCitationProps {
+  source: Citation;
+}
+
+/** Collapsible "View source" link showing the study guide passage a question was drawn from. */
+export function SourceCitation({ source }: SourceCitationProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="mt-3">
+      <button
+        type="button"
+        onClick={() => setOpen((prev) => !prev)}
+        onKeyDown={(event) => event.stopPropagation()}
+        aria-expanded={open}
+        className="inline-flex items-center gap-1 text-xs text-sky-300 hover:text-sky-200 transition"
+      >
+        <Icons.BookOpen className="h-3.5 w-3.5" />
+        {open ? 'Hide source' : 'View source'}
+        {source.page !== undefined && <span className="text-white/40">· Page {source.page}</span>}
+      </button>
+      {open && (
+        <blockquote className="mt-2 border-l-2 border-sky-400/50 pl-3 text-xs italic text-white/60">
+          “{source.quote}”
+        </blockquote>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import { ContentModerationError } from './contentModeration';
+import { LlmProviderError } from './llmProvider';
+import { QuizGenerationError } from './quizGenerator';
+
+/** Maps an error thrown while generating questions to an HTTP status and JSON body. */
+export function getGenerationErrorResponse(error: unknown) {
+  if (error instanceof QuizGenerationError) {
+    return { status: error.status, body: { error: error.message, validation: error.validation } };
+  }
+  if (error instanceof ContentModerationError) {
+    return { status: error.status, body: { error: error.message, contentBlocked: true, categories: error.categories } };
+  }
+  if (error instanceof LlmProviderError) {
+    return { status: error.status, body: { error: error.message } };
+  }
+
+  console.error('Quiz API error:', error);
+  return {
+    status: 500,
+    body: { error: 'Server error', details: error instanceof Error ? error.message : String(error) }
+  };
+}
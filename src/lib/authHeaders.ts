@@ -0,0 +1,6 @@
+import type { User } from 'firebase/auth';
+
+/** Sends the signed-in user's ID token so API calls are charged to their account instead of their IP. */
+export async function getAuthHeaders(user: User | null): Promise<Record<string, string>> {
+  return user ? { Authorization: `Bearer ${await user.getIdToken()}` } : {};
+}
@@ -0,0 +1,110 @@
+import { createVerify } from 'crypto';
+import type { NextApiRequest } from 'next';
+
+export type VerifiedUser = {
+  uid: string;
+  email?: string;
+};
+
+type TokenHeader = { alg?: string; kid?: string };
+type TokenPayload = { aud?: string; iss?: string; sub?: string; exp?: number; iat?: number; email?: string };
+
+// Google's public keys for Firebase ID tokens; they rotate, and the response says how long to keep them.
+const CERTIFICATES_URL = 'https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com';
+const DEFAULT_CERTIFICATE_TTL_MS = 60 * 60 * 1000;
+const CLOCK_SKEW_SECONDS = 300;
+
+let certificateCache: { certificates: Record<string, string>; expiresAt: number } | null = null;
+
+export class AuthTokenError extends Error {
+  status: number;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthTokenError';
+    this.status = 401;
+  }
+}
+
+async function getCertificates() {
+  if (certificateCache && certificateCache.expiresAt > Date.now()) {
+    return certificateCache.certificates;
+  }
+
+  const response = await fetch(CERTIFICATES_URL);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch Firebase token certificates (${response.status})`);
+  }
+
+  const maxAge = Number(response.headers.get('cache-control')?.match(/max-age=(\d+)/)?.[1]);
+  const certificates = (await response.json()) as Record<string, string>;
+  certificateCache = {
+    certificates,
+    expiresAt: Date.now() + (Number.isFinite(maxAge) && maxAge > 0 ? maxAge * 1000 : DEFAULT_CERTIFICATE_TTL_MS)
+  };
+  return certificates;
+}
+
+function decodeSegment<T>(segment: string): T {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+  } catch {
+    throw new AuthTokenError('Malformed sign-in token');
+  }
+}
+
+/**
+ * Verifies a Firebase Auth ID token the way the Admin SDK does: RS256 signature against Google's
+ * published keys, then audience, issuer, subject and expiry for this project.
+ */
+export async function verifyFirebaseIdToken(token: string): Promise<VerifiedUser> {
+  const projectId = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+  if (!projectId) {
+    throw new Error('NEXT_PUBLIC_FIREBASE_PROJECT_ID is required to verify sign-in tokens');
+  }
+
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    throw new AuthTokenError('Malformed sign-in token');
+  }
+
+  const [encodedHeader, encodedPayload, signature] = segments;
+  const header = decodeSegment<TokenHeader>(encodedHeader);
+  const payload = decodeSegment<TokenPayload>(encodedPayload);
+
+  const certificate = header.kid ? (await getCertificates())[header.kid] : undefined;
+  if (header.alg !== 'RS256' || !certificate) {
+    throw new AuthTokenError('Sign-in token was not issued by Firebase');
+  }
+
+  const verifier = createVerify('RSA-SHA256');
+  verifier.update(`${encodedHeader}.${encodedPayload}`);
+  if (!verifier.verify(certificate, signature, 'base64url')) {
+    throw new AuthTokenError('Sign-in token signature is invalid');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (payload.aud !== projectId || payload.iss !== `https://securetoken.google.com/${projectId}`) {
+    throw new AuthTokenError('Sign-in token belongs to a different project');
+  }
+  if (!payload.sub || typeof payload.exp !== 'number' || payload.exp <= now) {
+    throw new AuthTokenError('Sign-in token has expired. Please sign in again.');
+  }
+  if (typeof payload.iat === 'number' && payload.iat > now + CLOCK_SKEW_SECONDS) {
+    throw new AuthTokenError('Sign-in token is not valid yet');
+  }
+
+  return { uid: payload.sub, email: payload.email };
+}
+
+/** Returns the signed-in user from an `Authorization: Bearer <ID token>` header, or null for guests. */
+export async function getRequestUser(req: NextApiRequest): Promise<VerifiedUser | null> {
+  const header = req.headers.authorization;
+  if (!header) return null;
+
+  const match = header.match(/^Bearer\s+(\S+)$/i);
+  if (!match) {
+    throw new AuthTokenError('Authorization header must be a Bearer token');
+  }
+  return verifyFirebaseIdToken(match[1]);
+}
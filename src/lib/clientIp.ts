@@ -1,19 +1,46 @@
+import { BlockList, isIP } from 'net';
 import type { NextApiRequest } from 'next';
 
+export type ForwardingHeader = 'x-forwarded-for' | 'forwarded' | 'x-real-ip';
+
+export type ClientIpOptions = {
+  /** Proxy addresses or CIDR ranges whose forwarding headers are believed; see PROXY_PRESETS for names. */
+  trustedProxies: string[];
+  /** How many proxies sit in front of the app; that many hops are trusted whatever their address. */
+  trustedHops?: number;
+  /**
+   * The header the trusted proxies write. Only that one is read: proxies pass other forwarding headers
+   * through untouched, so a client could fill them with anything.
+   */
+  header?: ForwardingHeader;
+};
+
+type ClientIpRequest = Pick<NextApiRequest, 'headers'> & { socket?: { remoteAddress?: string } };
+
+const PROXY_PRESETS: Record<string, string[]> = {
+  loopback: ['127.0.0.0/8', '::1/128'],
+  private: ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', '169.254.0.0/16', 'fc00::/7', 'fe80::/10']
+};
+
+// Only same-host and private-network proxies are trusted unless TRUSTED_PROXIES says otherwise, so a
+// client connecting directly can never choose its own address with a forged header.
+const DEFAULT_TRUSTED_PROXIES = 'loopback,private';
+const FORWARDING_HEADERS: ForwardingHeader[] = ['x-forwarded-for', 'forwarded', 'x-real-ip'];
+
 function normalizeIp(ipAddress: string) {
-  const trimmed = ipAddress.trim();
+  const trimmed = ipAddress.trim().replace(/^"|"$/g, '');
   if (!trimmed || trimmed.toLowerCase() === 'unknown') {
     return '';
   }
 
-  if (trimmed.startsWith('::ffff:')) {
+  if (trimmed.startsWith('::ffff:') && isIP(trimmed.slice(7)) === 4) {
     return trimmed.slice(7);
   }
 
   if (trimmed.startsWith('[')) {
     const closingBracketIndex = trimmed.indexOf(']');
     if (closingBracketIndex > 1) {
-      return trimmed.slice(1, closingBracketIndex);
+      return normalizeIp(trimmed.slice(1, closingBracketIndex));
     }
   }
 
@@ -27,35 +54,120 @@ function normalizeIp(ipAddress: string) {
   return trimmed;
 }
 
-export function getClientIp(req: NextApiRequest): string | null {
-  const forwardedForHeader = req.headers['x-forwarded-for'];
-  const forwardedFor = Array.isArray(forwardedForHeader) ? forwardedForHeader[0] : forwardedForHeader;
-
-  if (typeof forwardedFor === 'string' && forwardedFor.trim()) {
-    const firstForwardedIp = forwardedFor.split(',')[0];
-    if (firstForwardedIp) {
-      const normalized = normalizeIp(firstForwardedIp);
-      if (normalized) {
-        return normalized;
-      }
+/** Returns the address in a canonical form, or '' when it is not an IP (obfuscated, "unknown", junk). */
+function parseIp(value: string) {
+  const normalized = normalizeIp(value);
+  return isIP(normalized) ? normalized.toLowerCase() : '';
+}
+
+function getHeader(req: ClientIpRequest, name: string) {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value.join(',') : value;
+}
+
+/** Reads the `for=` address of each element of an RFC 7239 `Forwarded` header, in order. */
+export function parseForwardedHeader(header: string) {
+  return header.split(',').map((element) => {
+    const forPair = element
+      .split(';')
+      .map((pair) => pair.trim())
+      .find((pair) => pair.toLowerCase().startsWith('for='));
+    return forPair ? forPair.slice(4) : '';
+  });
+}
+
+function createTrustList(entries: string[]) {
+  const list = new BlockList();
+
+  for (const entry of entries.flatMap((value) => PROXY_PRESETS[value.trim().toLowerCase()] ?? [value])) {
+    const [address, prefix] = entry.trim().split('/');
+    const ip = parseIp(address ?? '');
+    if (!ip) {
+      if (entry.trim()) throw new Error(`Invalid trusted proxy "${entry}"`);
+      continue;
     }
-  }
 
-  const realIpHeader = req.headers['x-real-ip'];
-  const realIp = Array.isArray(realIpHeader) ? realIpHeader[0] : realIpHeader;
-  if (typeof realIp === 'string' && realIp.trim()) {
-    const normalized = normalizeIp(realIp);
-    if (normalized) {
-      return normalized;
+    const type = isIP(ip) === 4 ? 'ipv4' : 'ipv6';
+    const maxPrefix = type === 'ipv4' ? 32 : 128;
+    const bits = prefix === undefined ? maxPrefix : Number(prefix);
+    if (!Number.isInteger(bits) || bits < 0 || bits > maxPrefix) {
+      throw new Error(`Invalid trusted proxy "${entry}"`);
     }
+    list.addSubnet(ip, bits, type);
   }
 
-  if (req.socket?.remoteAddress) {
-    const normalized = normalizeIp(req.socket.remoteAddress);
-    if (normalized) {
-      return normalized;
+  return list;
+}
+
+function getReportedAddresses(req: ClientIpRequest, header: ForwardingHeader) {
+  const value = getHeader(req, header);
+  if (!value?.trim()) return [];
+  if (header === 'forwarded') return parseForwardedHeader(value);
+  return header === 'x-forwarded-for' ? value.split(',') : [value];
+}
+
+/**
+ * Builds a resolver that finds the client address by walking the forwarding chain from the app outwards:
+ * the socket peer first, then the forwarding header's entries right to left. Each hop is believed only
+ * while the address that reported it is a trusted proxy, so entries a client prepends are never reached.
+ */
+export function createClientIpResolver({ trustedProxies, trustedHops = 0, header = 'x-forwarded-for' }: ClientIpOptions) {
+  const trustList = createTrustList(trustedProxies);
+  const isTrusted = (ip: string, hop: number) =>
+    hop < trustedHops || trustList.check(ip, isIP(ip) === 4 ? 'ipv4' : 'ipv6');
+
+  return (req: ClientIpRequest): string | null => {
+    const chain = [req.socket?.remoteAddress ?? '', ...getReportedAddresses(req, header).reverse()].map(parseIp);
+    let client = chain[0];
+    if (!client) return null;
+
+    for (let hop = 0; hop < chain.length - 1 && isTrusted(client, hop); hop += 1) {
+      const next = chain[hop + 1];
+      // A trusted proxy that could not tell who connected to it is the closest address we can vouch for.
+      if (!next) break;
+      client = next;
     }
+
+    return client;
+  };
+}
+
+let sharedResolver: ReturnType<typeof createClientIpResolver> | undefined;
+
+function createConfiguredResolver() {
+  const configured = (process.env.TRUSTED_PROXIES ?? DEFAULT_TRUSTED_PROXIES).trim();
+  const hops = process.env.TRUSTED_PROXY_HOPS?.trim() || '0';
+  const header = process.env.TRUSTED_PROXY_HEADER?.trim().toLowerCase() || 'x-forwarded-for';
+  if (!/^\d+$/.test(hops)) {
+    throw new Error(`Invalid TRUSTED_PROXY_HOPS "${hops}"`);
+  }
+  if (!FORWARDING_HEADERS.includes(header as ForwardingHeader)) {
+    throw new Error(`Unknown TRUSTED_PROXY_HEADER "${header}"`);
   }
 
-  return null;
+  return createClientIpResolver({
+    trustedProxies: configured.toLowerCase() === 'none' ? [] : configured.split(','),
+    trustedHops: Number(hops),
+    header: header as ForwardingHeader
+  });
+}
+
+/**
+ * The caller's address for rate limiting, trusting the proxies in TRUSTED_PROXIES (comma-separated
+ * addresses, CIDR ranges, or the presets "loopback" and "private"; "none" trusts nothing) and the
+ * first TRUSTED_PROXY_HOPS hops, for platforms whose proxy addresses are not known in advance.
+ * TRUSTED_PROXY_HEADER names the header those proxies set: x-forwarded-for (default), forwarded or x-real-ip.
+ * The configuration is read once; when it is invalid no forwarding header is believed and the socket
+ * address is used, rather than failing every request.
+ */
+export function getClientIp(req: NextApiRequest): string | null {
+  if (!sharedResolver) {
+    try {
+      sharedResolver = createConfiguredResolver();
+    } catch (error) {
+      console.error('Invalid trusted proxy configuration; using socket addresses only:', error);
+      sharedResolver = createClientIpResolver({ trustedProxies: [] });
+    }
+  }
+  return sharedResolver(req);
 }
@@ -0,0 +1,175 @@
+import { logBlockedContent } from './moderationLog';
+import { getQuestionText } from './quizScoring';
+import type { QuizStreamEvent } from '@/types/quiz';
+
+export type ModerationCategory = 'weapons' | 'drugs' | 'self-harm' | 'sexual' | 'sexual-minors' | 'hate';
+
+export type ModerationResult = {
+  flagged: boolean;
+  categories: ModerationCategory[];
+};
+
+/** Decides whether text is fit for a quiz. Implementations may call out to a hosted moderation API. */
+export interface ContentClassifier {
+  name: string;
+  classify(text: string): Promise<ModerationResult>;
+}
+
+export type ModerationRule = {
+  category: ModerationCategory;
+  pattern: RegExp;
+};
+
+export type ModerationStage = 'input' | 'output';
+
+const CATEGORY_LABELS: Record<ModerationCategory, string> = {
+  weapons: 'making weapons or explosives',
+  drugs: 'producing illegal drugs',
+  'self-harm': 'self-harm',
+  sexual: 'sexual content',
+  'sexual-minors': 'sexual content involving minors',
+  hate: 'hateful content'
+};
+
+// Asking how to do something, as opposed to describing it: "how to make", "steps to synthesize".
+const HOW_TO = String.raw`(?:how (?:to|do (?:i|you)|can (?:i|you)|would (?:i|you))|steps? to|instructions? (?:for|to|on)|guide to|recipe for|teach me (?:how )?to|help me)`;
+// Asking for content to be produced, as opposed to studying it.
+const PRODUCE = String.raw`(?:write|generate|create|produce|make|show me|give me|send me|find me|describe in detail)`;
+
+/**
+ * Rules target harmful intent rather than subjects: each needs a request to do or produce the harmful
+ * thing, with the object next to the verb. Study material that merely mentions a subject ("the Manhattan
+ * Project", "laws against child pornography", "a bomb calorimeter", "Super Bowl XXX") must pass, because
+ * the rules also screen whole study guides and every generated question.
+ */
+export const DEFAULT_MODERATION_RULES: ModerationRule[] = [
+  {
+    category: 'weapons',
+    pattern: new RegExp(
+      String.raw`\b${HOW_TO}\s+(?:make|build|assemble|construct|synthesi[sz]e|3d[- ]print)\s+(?:an?\s+|some\s+|the\s+|your own\s+|homemade\s+)?` +
+        String.raw`(?:(?:pipe|nail|car|dirty|fertili[sz]er)\s+bombs?|bombs?(?!\s+(?:calorimeters?|cyclones?|shelters?|squads?|disposal))|explosives?|napalm|nerve (?:agents?|gas)|sarin|ricin|ghost guns?|silencers?|molotov(?: cocktails?)?)\b`,
+      'i'
+    )
+  },
+  {
+    category: 'weapons',
+    pattern: /^\s*(?:make|build|assemble)\s+(?:a\s+|an\s+)?(?:pipe\s+bomb|molotov(?:\s+cocktail)?|ied|dirty\s+bomb)\b/i
+  },
+  {
+    category: 'drugs',
+    pattern: new RegExp(
+      String.raw`\b(?:${HOW_TO}\s+(?:synthesi[sz]e|cook|make|manufacture|produce|extract)\s+|recipe for\s+)(?:some\s+)?(?:meth(?:amphetamine)?|fentanyl|heroin|crack(?: cocaine)?|lsd|mdma)\b`,
+      'i'
+    )
+  },
+  {
+    category: 'self-harm',
+    pattern: new RegExp(
+      String.raw`\b(?:${HOW_TO}|(?:best|easiest|quickest|painless) ways? to|ways to)\s+(?:kill (?:myself|yourself|oneself)|commit suicide|end (?:my|your) (?:own )?life|self[- ]harm|cut (?:myself|yourself))\b`,
+      'i'
+    )
+  },
+  {
+    category: 'sexual-minors',
+    pattern: new RegExp(
+      String.raw`\b${PRODUCE}\b[^.\n]{0,30}?(?:\b(?:sexual|erotic|nude|naked|explicit)\b[^.\n]{0,30}?\b(?:child(?:ren)?|minors?|underage|kids?|preteens?)\b|\b(?:child(?:ren)?|minors?|underage|kids?|preteens?)\s+(?:porn\w*|erotica|nudes?))`,
+      'i'
+    )
+  },
+  {
+    category: 'sexual',
+    pattern: new RegExp(
+      String.raw`\b${PRODUCE}\b[^.\n]{0,30}?\b(?:porn(?:ographic)?\s+(?:stor(?:y|ies)|scenes?|content|images?|videos?)|erotica|erotic (?:stor(?:y|ies)|fan ?fic\w*|scenes?)|(?:explicit|graphic) sex(?:ual)? (?:scenes?|content|stor(?:y|ies)|acts?))\b`,
+      'i'
+    )
+  },
+  {
+    category: 'hate',
+    pattern:
+      /\b(?:jews|muslims|christians|blacks|whites|asians|arabs|gays|lesbians|trans(?:gender)? people|immigrants|refugees)\s+(?:should|must|deserve to)\s+(?:all\s+)?(?:die|be (?:killed|exterminated|wiped out|eradicated|gassed))\b|\bwhy\s+(?:jews|muslims|christians|blacks|whites|asians|arabs|gays|immigrants|women)\s+are\s+(?:subhuman|vermin|inferior)\b/i
+  }
+];
+
+export class ContentModerationError extends Error {
+  status: number;
+  stage: ModerationStage;
+  categories: ModerationCategory[];
+
+  constructor(stage: ModerationStage, categories: ModerationCategory[]) {
+    const reasons = categories.map((category) => CATEGORY_LABELS[category]).join(', ');
+    super(
+      stage === 'input'
+        ? `Quiziq can't make a quiz from this because it appears to involve ${reasons}. Please choose a different topic.`
+        : `The generated quiz was blocked by the content filter (${reasons}). Please try a different topic.`
+    );
+    this.name = 'ContentModerationError';
+    this.status = 422;
+    this.stage = stage;
+    this.categories = categories;
+  }
+}
+
+/** Local keyword/regex classifier; needs no external service. */
+export function createRuleClassifier(rules: ModerationRule[] = DEFAULT_MODERATION_RULES): ContentClassifier {
+  return {
+    name: 'rules',
+    async classify(text) {
+      const categories = Array.from(new Set(rules.filter(({ pattern }) => pattern.test(text)).map((rule) => rule.category)));
+      return { flagged: categories.length > 0, categories };
+    }
+  };
+}
+
+/** Lets everything through; for deployments that moderate upstream. */
+export function createPassThroughClassifier(): ContentClassifier {
+  return {
+    name: 'none',
+    async classify() {
+      return { flagged: false, categories: [] };
+    }
+  };
+}
+
+export function getContentClassifier(): ContentClassifier {
+  const classifierName = (process.env.CONTENT_MODERATION || 'rules').trim().toLowerCase();
+
+  switch (classifierName) {
+    case 'rules':
+      return createRuleClassifier();
+    case 'none':
+    case 'off':
+      return createPassThroughClassifier();
+    default:
+      throw new Error(`Unknown CONTENT_MODERATION "${classifierName}"`);
+  }
+}
+
+/** Throws a ContentModerationError, after logging the attempt, when `text` is flagged. */
+export async function assertContentAllowed(
+  classifier: ContentClassifier,
+  text: string,
+  stage: ModerationStage,
+  clientIp?: string | null
+) {
+  const result = await classifier.classify(text);
+  if (!result.flagged) return;
+
+  await logBlockedContent({ stage, categories: result.categories, classifier: classifier.name, text, clientIp });
+  throw new ContentModerationError(stage, result.categories);
+}
+
+/** Screens each generated question before it reaches the player; a flagged one ends the quiz with a refusal. */
+export async function* moderateQuizEvents(
+  events: AsyncIterable<QuizStreamEvent>,
+  classifier: ContentClassifier,
+  clientIp?: string | null
+): AsyncGenerator<QuizStreamEvent> {
+  for await (const event of events) {
+    if (event.type === 'meta') {
+      await assertContentAllowed(classifier, event.title, 'output', clientIp);
+    } else if (event.type === 'question') {
+      await assertContentAllowed(classifier, getQuestionText(event.question), 'output', clientIp);
+    }
+    yield event;
+  }
+}
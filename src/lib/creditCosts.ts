@@ -0,0 +1,30 @@
+import { allocateByWeight } from './questionMix';
+
+// Daily credits charged per request. Kept free of server imports so the dashboard can show costs.
+export const QUIZ_GENERATION_COST = 1;
+/** Replacing a single question costs a fraction of a full quiz generation. */
+export const REPLACE_QUESTION_COST = 0.25;
+/** Each "explain this more" reply; a full thread on one question stays under one generation. */
+export const EXPLANATION_COST = 0.1;
+
+// A ten-question quiz on a topic still costs one credit; longer quizzes and long study guides,
+// which take many times the tokens, cost proportionally more. The study guide share is capped so the
+// largest quiz (4 credits) still fits a guest's daily allowance.
+const CREDITS_PER_QUESTION = 0.1;
+const CREDITS_PER_10K_INPUT_CHARS = 0.25;
+const MAX_INPUT_CREDITS = 2;
+
+export function getQuizCreditCost(count: number, inputChars: number) {
+  const inputCredits = Math.min((inputChars / 10_000) * CREDITS_PER_10K_INPUT_CHARS, MAX_INPUT_CREDITS);
+  return Math.round((count * CREDITS_PER_QUESTION + inputCredits) * 100) / 100;
+}
+
+/**
+ * Characters the model is actually sent for a study guide split into sections of `sectionLengths`.
+ * Questions are allocated across sections by length, as generateChunkedQuiz does, and a section that
+ * gets no questions is never sent, so it is not charged for.
+ */
+export function getSentInputChars(sectionLengths: number[], count: number) {
+  const sectionCounts = allocateByWeight(sectionLengths, count);
+  return sectionLengths.reduce((sum, length, index) => (sectionCounts[index] ? sum + length : sum), 0);
+}
@@ -0,0 +1,21 @@
+import { applicationDefault, cert, getApps, initializeApp, type ServiceAccount } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+
+/**
+ * Server-only Firestore access for the API routes. Unlike the client SDK in ./firebase, the Admin SDK
+ * bypasses firestore.rules, so the collections only the server may touch can deny every client.
+ * Credentials come from FIREBASE_SERVICE_ACCOUNT (the service account key JSON) or, when that is unset,
+ * the environment's application default credentials.
+ */
+function getAdminApp() {
+  const [existing] = getApps();
+  if (existing) return existing;
+
+  const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT?.trim();
+  return initializeApp({
+    credential: serviceAccount ? cert(JSON.parse(serviceAccount) as ServiceAccount) : applicationDefault(),
+    projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID
+  });
+}
+
+export const adminDb = getFirestore(getAdminApp());
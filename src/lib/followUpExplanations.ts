@@ -0,0 +1,91 @@
+import { DEFAULT_LANGUAGE, getLanguageName } from './languages';
+import type { ChatMessage, LlmProvider } from './llmProvider';
+import { getAnswerLabel, getCorrectAnswerLabel, gradeAnswer, type AnswerValue } from './quizScoring';
+import type { ExplanationMessage, QuizQuestion } from '@/types/quiz';
+
+// Up to four follow-up questions per quiz question.
+export const MAX_THREAD_MESSAGES = 8;
+export const MAX_FOLLOW_UP_CHARS = 500;
+const MAX_REPLY_CHARS = 4000;
+
+export const EXPLANATION_SYSTEM_PROMPT = `You are a FOLLOW-UP TUTOR helping a student review one quiz question they just answered.
+Rules:
+- If the student's answer was wrong, start by explaining exactly why their chosen answer is wrong and what misconception it suggests.
+- Then explain why the correct answer is right, and walk through one short worked example that applies the idea.
+- Answer later follow-up questions about this question and its concept; politely decline anything unrelated.
+- Be precise and concise: at most 2 short paragraphs plus the worked example.
+- Plain text only, no markdown headings or tables.`;
+
+function describeQuestion(question: QuizQuestion) {
+  switch (question.type) {
+    case 'multiple-choice':
+    case 'true-false':
+    case 'multi-select':
+      return `${question.question}\nOptions:\n${question.options.map((option, index) => `${index + 1}. ${option}`).join('\n')}`;
+    case 'matching':
+      return `${question.question}\nTerms: ${question.pairs.map((pair) => pair.term).join('; ')}`;
+    case 'ordering':
+      return `${question.question}\nItems: ${question.items.join('; ')}`;
+    default:
+      return question.question;
+  }
+}
+
+function buildOpeningPrompt(question: QuizQuestion, selected: AnswerValue) {
+  const credit = gradeAnswer(question, selected);
+  const verdict =
+    selected === null
+      ? 'The student did not answer.'
+      : credit === 1
+        ? 'The student answered correctly; deepen their understanding rather than correcting them.'
+        : credit > 0
+          ? `The student earned partial credit (${Math.round(credit * 100)}%).`
+          : 'The student answered incorrectly.';
+
+  return `Question:\n${describeQuestion(question)}\n\nStudent's answer: ${getAnswerLabel(question, selected)}\nCorrect answer: ${getCorrectAnswerLabel(question)}\n${verdict}\nOriginal explanation: ${question.explanation}`;
+}
+
+/** Keeps a well-formed thread: alternating turns that start with the tutor and end with a student question. */
+export function sanitizeThread(value: unknown): ExplanationMessage[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.length > MAX_THREAD_MESSAGES) return null;
+
+  const thread: ExplanationMessage[] = [];
+  for (const [index, message] of value.entries()) {
+    const expectedRole = index % 2 === 0 ? 'assistant' : 'user';
+    if (!message || message.role !== expectedRole || typeof message.content !== 'string') return null;
+
+    const content = message.content.trim();
+    const limit = expectedRole === 'user' ? MAX_FOLLOW_UP_CHARS : MAX_REPLY_CHARS;
+    if (!content || content.length > limit) return null;
+    thread.push(
+      expectedRole === 'assistant' && typeof message.token === 'string'
+        ? { role: expectedRole, content, token: message.token }
+        : { role: expectedRole, content }
+    );
+  }
+
+  return thread.length % 2 === 0 ? thread : null;
+}
+
+/** Returns the tutor's next reply: the deeper explanation for an empty thread, otherwise an answer to the last follow-up. */
+export async function explainQuestion(
+  provider: LlmProvider,
+  question: QuizQuestion,
+  selected: AnswerValue,
+  thread: ExplanationMessage[],
+  language = DEFAULT_LANGUAGE
+) {
+  const systemPrompt =
+    language === DEFAULT_LANGUAGE
+      ? EXPLANATION_SYSTEM_PROMPT
+      : `${EXPLANATION_SYSTEM_PROMPT}\n- Reply in ${getLanguageName(language)}, the student's own language.`;
+  const messages: ChatMessage[] = [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: buildOpeningPrompt(question, selected) },
+    ...thread.map(({ role, content }) => ({ role, content }))
+  ];
+
+  const { content } = await provider.complete({ messages, temperature: 0.4, maxTokens: 700 });
+  return content.trim().slice(0, MAX_REPLY_CHARS);
+}
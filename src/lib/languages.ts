@@ -0,0 +1,32 @@
+export type QuizLanguage = {
+  code: string;
+  name: string;
+};
+
+export const DEFAULT_LANGUAGE = 'en';
+
+export const QUIZ_LANGUAGES: QuizLanguage[] = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'fr', name: 'French' },
+  { code: 'de', name: 'German' },
+  { code: 'it', name: 'Italian' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'nl', name: 'Dutch' },
+  { code: 'ru', name: 'Russian' },
+  { code: 'ar', name: 'Arabic' },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'zh', name: 'Chinese (Simplified)' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'ko', name: 'Korean' }
+];
+
+export function getLanguageName(code: string) {
+  return QUIZ_LANGUAGES.find((language) => language.code === code)?.name ?? code;
+}
+
+/** Only listed languages reach the prompt, whatever the casing ("ES"); anything else falls back to `fallback`. */
+export function sanitizeLanguage(value: unknown, fallback = DEFAULT_LANGUAGE) {
+  const code = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  return QUIZ_LANGUAGES.find((language) => language.code === code)?.code ?? fallback;
+}
@@ -0,0 +1,408 @@
+import { readFileSync } from 'fs';
+import type { QuestionType } from '@/types/quiz';
+
+export type ChatMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+};
+
+export type TokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+};
+
+export type CompletionRequest = {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  /** Receives the token counts the provider reports, if it reports any. */
+  onUsage?: (usage: TokenUsage) => void;
+};
+
+export type CompletionResult = {
+  content: string;
+  usage?: TokenUsage;
+};
+
+export interface LlmProvider {
+  name: string;
+  model: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  /** Yields content deltas as the model produces them. */
+  stream(request: CompletionRequest): AsyncIterable<string>;
+}
+
+export class LlmProviderError extends Error {
+  status: number;
+
+  constructor(message: string, status = 500) {
+    super(message);
+    this.name = 'LlmProviderError';
+    this.status = status;
+  }
+}
+
+type OpenAiCompatibleConfig = {
+  name: string;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+};
+
+const GROQ_BASE_URL = 'https://api.groq.com/openai/v1';
+const GROQ_DEFAULT_MODEL = 'llama-3.3-70b-versatile';
+// Ollama serves an OpenAI-compatible API under /v1; llama.cpp's server does the same on port 8080.
+const LOCAL_DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+const LOCAL_DEFAULT_MODEL = 'llama3.1';
+const FIXTURE_STREAM_CHUNK_SIZE = 48;
+
+function parseUsage(value: unknown): TokenUsage | undefined {
+  const usage = value as { prompt_tokens?: unknown; completion_tokens?: unknown } | undefined;
+  if (typeof usage?.prompt_tokens !== 'number' || typeof usage.completion_tokens !== 'number') return undefined;
+  return { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens };
+}
+
+export function createOpenAiCompatibleProvider({ name, baseUrl, model, apiKey }: OpenAiCompatibleConfig): LlmProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  async function postCompletion({ messages, temperature, maxTokens }: CompletionRequest, stream: boolean) {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model,
+        temperature,
+        max_tokens: maxTokens,
+        messages,
+        stream,
+        // Asks for a final chunk carrying token usage; servers that do not support it ignore the option.
+        stream_options: stream ? { include_usage: true } : undefined
+      })
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new LlmProviderError(text || `${name} API error`, response.status);
+    }
+
+    return response;
+  }
+
+  return {
+    name,
+    model,
+    async complete(request) {
+      const response = await postCompletion(request, false);
+      const data = await response.json();
+      const usage = parseUsage(data?.usage);
+      if (usage) request.onUsage?.(usage);
+      return { content: data?.choices?.[0]?.message?.content || '', usage };
+    },
+    async *stream(request) {
+      const response = await postCompletion(request, true);
+      if (!response.body) {
+        throw new LlmProviderError(`${name} returned an empty stream`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() ?? '';
+
+          for (const line of lines) {
+            const trimmed = line.trim();
+            if (!trimmed.startsWith('data:')) continue;
+
+            const payload = trimmed.slice(5).trim();
+            if (payload === '[DONE]') return;
+
+            try {
+              const data = JSON.parse(payload);
+              // Groq reports streaming usage under x_groq rather than the standard field.
+              const usage = parseUsage(data?.usage ?? data?.x_groq?.usage);
+              if (usage) request.onUsage?.(usage);
+
+              const delta = data?.choices?.[0]?.delta?.content;
+              if (typeof delta === 'string' && delta) {
+                yield delta;
+              }
+            } catch {
+              // Ignore keep-alive comments and malformed server-sent events.
+            }
+          }
+        }
+      } finally {
+        reader.cancel().catch(() => undefined);
+      }
+    }
+  };
+}
+
+function getUserPrompt(messages: ChatMessage[]) {
+  return messages.filter((message) => message.role === 'user').map((message) => message.content).join('\n');
+}
+
+function getRequestedCount(userPrompt: string) {
+  const match = userPrompt.match(/Question count:\s*(\d+)/i);
+  return match ? Number(match[1]) : 5;
+}
+
+/** Numbers follow-up fixture questions after the highest one the prompt asks to avoid. */
+function getAvoidedCount(userPrompt: string) {
+  const avoidList = userPrompt.split(/Do NOT repeat[^\n]*\n/i)[1] ?? '';
+  const lines = avoidList.split('\n').filter((line) => line.startsWith('- '));
+  const numbers = lines.flatMap((line) => (line.match(/\d+/g) ?? []).map(Number));
+  return Math.max(lines.length, ...numbers);
+}
+
+function getFixtureStudyGuide(userPrompt: string) {
+  return userPrompt.match(/<study_guide>\n([\s\S]*?)\n<\/study_guide>/)?.[1] ?? '';
+}
+
+/** Quotes a sentence of the study guide in the prompt when the prompt asks for sources. */
+function getFixtureSource(userPrompt: string, index: number) {
+  if (!userPrompt.includes('"source" field')) return undefined;
+
+  const sentences = getFixtureStudyGuide(userPrompt)
+    .replace(/\[Page \d+\]/g, ' ')
+    .split(/(?<=[.!?])\s+/)
+    .map((sentence) => sentence.split(/\s+/).filter(Boolean).slice(0, 40).join(' '))
+    .filter((sentence) => sentence.split(' ').length >= 5);
+  return sentences.length ? sentences[index % sentences.length] : undefined;
+}
+
+const FIXTURE_PROMPT_MARKERS: [string, QuestionType][] = [
+  ['TRUE/FALSE', 'true-false'],
+  ['MULTI-SELECT', 'multi-select'],
+  ['FILL-IN-THE-BLANK', 'fill-in-the-blank'],
+  ['SHORT-ANSWER', 'short-answer'],
+  ['NUMERIC-ANSWER', 'numeric'],
+  ['MATCHING', 'matching'],
+  ['ORDERING', 'ordering']
+];
+
+/** Lists the question type of every fixture question, following "Question mix" for mixed prompts. */
+function getFixtureQuestionTypes(systemPrompt: string, userPrompt: string): QuestionType[] {
+  const count = getRequestedCount(userPrompt);
+
+  if (systemPrompt.includes('MIXED-TYPE')) {
+    const mix = userPrompt.match(/Question mix:\s*(.+)/i)?.[1] ?? '';
+    const queues = Array.from(mix.matchAll(/(\d+)\s+([a-z-]+)/g)).map(([, mixCount, type]) =>
+      Array.from({ length: Number(mixCount) }, () => type as QuestionType)
+    );
+    // Interleave the types round-robin, the way the prompt asks the model to.
+    const types: QuestionType[] = [];
+    while (queues.some((queue) => queue.length)) {
+      queues.forEach((queue) => {
+        const type = queue.shift();
+        if (type) types.push(type);
+      });
+    }
+    return types.slice(0, count);
+  }
+
+  const type = FIXTURE_PROMPT_MARKERS.find(([marker]) => systemPrompt.includes(marker))?.[1] ?? 'multiple-choice';
+  return Array.from({ length: count }, () => type);
+}
+
+// Made-up terms, one per question index, so fixture questions never read as rewordings of each other
+// and the duplicate check keeps all of them.
+const FIXTURE_WORDS = [
+  'alpha', 'beta', 'gamma', 'delta', 'epsilon', 'zeta', 'eta', 'theta', 'iota', 'kappa', 'lambda', 'mu',
+  'nu', 'xi', 'omicron', 'pi', 'rho', 'sigma', 'tau', 'upsilon', 'phi', 'chi', 'psi', 'omega'
+];
+
+function getFixtureWord(index: number) {
+  const word = FIXTURE_WORDS[index % FIXTURE_WORDS.length];
+  const round = Math.floor(index / FIXTURE_WORDS.length);
+  const term = round ? `${word}${round}` : word;
+  return term.charAt(0).toUpperCase() + term.slice(1);
+}
+
+function buildFixtureQuestion(type: QuestionType, index: number) {
+  const number = index + 1;
+
+  switch (type) {
+    case 'true-false':
+      return {
+        question: `Fixture statement ${number} is true.`,
+        options: ['True', 'False'],
+        answerIndex: index % 2,
+        explanation: `Fixture explanation for statement ${number}.`
+      };
+    case 'fill-in-the-blank':
+    case 'short-answer':
+      return {
+        question:
+          type === 'fill-in-the-blank'
+            ? `Fixture sentence ${number} is missing a _____.`
+            : `What is the fixture term for item ${number}?`,
+        answer: `term ${number}`,
+        acceptedAnswers: [`fixture term ${number}`],
+        explanation: `Fixture explanation for question ${number}.`
+      };
+    case 'numeric':
+      return {
+        question: `How many metres does ${getFixtureWord(index)} travel in ${number} seconds at ${number} metres per second?`,
+        answer: number * number,
+        absoluteTolerance: 0.1,
+        relativeTolerance: 0,
+        unit: 'm',
+        explanation: `Distance is speed times time: ${number} × ${number}.`
+      };
+    case 'matching':
+      return {
+        question: `Match each fixture term to its definition (${number}).`,
+        pairs: [0, 1, 2, 3].map((offset) => {
+          const term = getFixtureWord(index * 4 + offset);
+          return { term, definition: `Definition of ${term.toLowerCase()}` };
+        }),
+        explanation: `Fixture explanation for question ${number}.`
+      };
+    case 'ordering':
+      return {
+        question: `Put fixture steps for item ${number} in order.`,
+        items: ['First', 'Second', 'Third', 'Fourth'].map(
+          (step, offset) => `${step} step: ${getFixtureWord(index * 4 + offset)}`
+        ),
+        explanation: `Fixture explanation for question ${number}.`
+      };
+    default:
+      break;
+  }
+
+  const options = ['Option A', 'Option B', 'Option C', 'Option D'].map((option) => `${option} (${number})`);
+
+  if (type === 'multi-select') {
+    return {
+      question: `Fixture question ${number}? Select all that apply.`,
+      options,
+      answerIndices: index % 2 === 0 ? [index % 4, (index + 1) % 4] : [0, 2, 3],
+      explanation: `Fixture explanation for question ${number}.`
+    };
+  }
+
+  return {
+    question: `Fixture question ${number}?`,
+    options,
+    answerIndex: index % 4,
+    explanation: `Fixture explanation for question ${number}.`
+  };
+}
+
+function buildFixtureQuiz(messages: ChatMessage[]) {
+  const systemPrompt = messages.find((message) => message.role === 'system')?.content ?? '';
+  const userPrompt = getUserPrompt(messages);
+  const offset = getAvoidedCount(userPrompt);
+  const types = getFixtureQuestionTypes(systemPrompt, userPrompt);
+  // Follows the requested true/false split, the way the prompt asks the model to.
+  const requestedTrue = userPrompt.match(/make exactly (\d+) statement\(s\) true/i)?.[1];
+  let trueStatementsLeft = requestedTrue === undefined ? null : Number(requestedTrue);
+  const questions = types.map((type, index) => {
+    const question = buildFixtureQuestion(type, offset + index);
+    if (type === 'true-false' && trueStatementsLeft !== null) {
+      question.answerIndex = trueStatementsLeft > 0 ? 0 : 1;
+      trueStatementsLeft -= 1;
+    }
+    const source = getFixtureSource(userPrompt, offset + index);
+    return {
+      type,
+      ...question,
+      explanation: source ? `${question.explanation} See: "${source}"` : question.explanation,
+      hints: [`Think about what fixture item ${offset + index + 1} describes.`, `Fixture clue ${offset + index + 1}: recall the definition.`],
+      source
+    };
+  });
+
+  return JSON.stringify({ title: 'Fixture Quiz', questions });
+}
+
+/** Plain-text tutor reply for "explain this more" prompts; numbers follow-ups so threads are easy to trace. */
+function buildFixtureExplanation(messages: ChatMessage[]) {
+  const followUps = messages.filter((message) => message.role === 'user').length - 1;
+  return followUps
+    ? `Fixture answer to follow-up ${followUps}.`
+    : 'Fixture explanation of why the chosen answer is wrong, followed by a worked example.';
+}
+
+/**
+ * Deterministic provider for offline development and tests. Returns the contents of
+ * `LLM_FIXTURE_FILE` when set, otherwise a generated quiz sized from the prompt.
+ */
+export function createFixtureProvider(fixtureFile?: string): LlmProvider {
+  const getContent = (messages: ChatMessage[]) => {
+    const systemPrompt = messages.find((message) => message.role === 'system')?.content ?? '';
+    if (systemPrompt.includes('FOLLOW-UP TUTOR')) return buildFixtureExplanation(messages);
+    return fixtureFile ? readFileSync(fixtureFile, 'utf8') : buildFixtureQuiz(messages);
+  };
+
+  return {
+    name: 'fixture',
+    model: 'fixture',
+    async complete({ messages }) {
+      return { content: getContent(messages) };
+    },
+    async *stream({ messages }) {
+      const content = getContent(messages);
+      for (let offset = 0; offset < content.length; offset += FIXTURE_STREAM_CHUNK_SIZE) {
+        yield content.slice(offset, offset + FIXTURE_STREAM_CHUNK_SIZE);
+      }
+    }
+  };
+}
+
+export function getLlmProvider(): LlmProvider {
+  const providerName = (process.env.LLM_PROVIDER || 'groq').trim().toLowerCase();
+  const modelOverride = process.env.LLM_MODEL?.trim();
+
+  switch (providerName) {
+    case 'groq': {
+      const apiKey = process.env.GROQ_API_KEY;
+      if (!apiKey) {
+        throw new LlmProviderError('Missing GROQ_API_KEY');
+      }
+      return createOpenAiCompatibleProvider({
+        name: 'groq',
+        baseUrl: GROQ_BASE_URL,
+        model: modelOverride || GROQ_DEFAULT_MODEL,
+        apiKey
+      });
+    }
+    case 'openai-compatible': {
+      const baseUrl = process.env.LLM_BASE_URL?.trim();
+      if (!baseUrl || !modelOverride) {
+        throw new LlmProviderError('LLM_BASE_URL and LLM_MODEL are required for the openai-compatible provider');
+      }
+      return createOpenAiCompatibleProvider({
+        name: 'openai-compatible',
+        baseUrl,
+        model: modelOverride,
+        apiKey: process.env.LLM_API_KEY
+      });
+    }
+    case 'local':
+      return createOpenAiCompatibleProvider({
+        name: 'local',
+        baseUrl: process.env.LLM_BASE_URL?.trim() || LOCAL_DEFAULT_BASE_URL,
+        model: modelOverride || LOCAL_DEFAULT_MODEL,
+        apiKey: process.env.LLM_API_KEY
+      });
+    case 'fixture':
+      return createFixtureProvider(process.env.LLM_FIXTURE_FILE?.trim() || undefined);
+    default:
+      throw new LlmProviderError(`Unknown LLM_PROVIDER "${providerName}"`);
+  }
+}
@@ -0,0 +1,34 @@
+import { createHash } from 'crypto';
+import { getRateLimitStore } from './rateLimitStore';
+
+type BlockedContentEntry = {
+  stage: 'input' | 'output';
+  categories: string[];
+  classifier: string;
+  text: string;
+  clientIp?: string | null;
+};
+
+const MAX_LOGGED_TEXT = 500;
+
+/**
+ * Records a blocked request for admins to review, in whichever store RATE_LIMIT_STORE configures. The IP
+ * is stored hashed, like rate-limit keys, and failures are only reported to the console so they never
+ * mask the refusal.
+ */
+export async function logBlockedContent({ stage, categories, classifier, text, clientIp }: BlockedContentEntry) {
+  const excerpt = text.slice(0, MAX_LOGGED_TEXT);
+  console.warn(`Blocked quiz ${stage} (${categories.join(', ')}):`, excerpt);
+
+  try {
+    await getRateLimitStore().addModerationLogEntry({
+      stage,
+      categories,
+      classifier,
+      excerpt,
+      ipHash: clientIp ? createHash('sha256').update(clientIp).digest('hex') : null
+    });
+  } catch (error) {
+    console.error('Failed to log blocked content:', error);
+  }
+}
@@ -0,0 +1,138 @@
+import { getContentWords } from './questionSimilarity';
+import { getCorrectAnswerLabel, getQuestionText } from './quizScoring';
+import type { QuizQuestion } from '@/types/quiz';
+
+export type InjectionFinding = {
+  rule: string;
+  excerpt: string;
+};
+
+export type MaterialGuard = {
+  /** Returns why `question` strays from the supplied material, or null when it is fine. */
+  check(question: QuizQuestion): string | null;
+};
+
+const MAX_FINDINGS = 10;
+const EXCERPT_RADIUS = 40;
+const MAX_AVOID_QUESTION_CHARS = 500;
+
+// Phrased narrowly: study guides are full of "respond", "act as" and "instructions" in ordinary use.
+const INSTRUCTION_PATTERNS: { rule: string; pattern: RegExp }[] = [
+  {
+    rule: 'Tells the model to ignore its instructions',
+    pattern:
+      /\b(?:ignore|disregard|forget|override)\b[^.\n]{0,40}?\b(?:previous|prior|above|earlier|preceding|all|any|system)\b[^.\n]{0,20}?\b(?:instructions?|prompts?|rules|directions|guidelines)\b/gi
+  },
+  {
+    rule: 'Asks for the system prompt',
+    pattern:
+      /\b(?:reveal|print|show|repeat|output|leak|tell me|what is)\b[^.\n]{0,40}?\b(?:system|hidden|initial|original)\s+(?:prompt|instructions?|message)\b/gi
+  },
+  {
+    rule: 'Gives the model a new role',
+    pattern: /\b(?:you are now|from now on,? you (?:are|will|must)|pretend (?:to be|you are)|new instructions?\s*:)/gi
+  },
+  {
+    rule: 'Contains chat role markup',
+    pattern: /<\|[a-z_]{2,20}\|>|^\s*(?:#{2,}\s*)?(?:system|assistant)\s*(?:prompt)?\s*:/gim
+  },
+  {
+    rule: 'Dictates the quiz output',
+    pattern: /\b(?:respond|reply|output)\s+only\s+with\b|\b(?:all|every)\s+(?:correct\s+)?answers?\s+(?:should|must)\s+be\b/gi
+  },
+  {
+    rule: 'Tries to close a fenced block of the prompt',
+    pattern: /<\/?\s*(?:study[_-]?guide|previous[_-]?questions)\s*>/gi
+  }
+];
+
+// Fragments of our own prompts; seeing them in a question means the model echoed its instructions.
+const PROMPT_LEAK_MARKERS = [
+  'system prompt',
+  'collegeboard/ap-level',
+  'json only',
+  'random seed',
+  'question count:',
+  'difficulty guidance',
+  'untrusted reference material',
+  '<study_guide>',
+  '<previous_questions>'
+];
+
+/** Lists passages that read like instructions to the model rather than material to study. */
+export function detectInstructionLikeContent(text: string): InjectionFinding[] {
+  const findings: InjectionFinding[] = [];
+
+  for (const { rule, pattern } of INSTRUCTION_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const start = Math.max(0, (match.index ?? 0) - EXCERPT_RADIUS);
+      const end = Math.min(text.length, (match.index ?? 0) + match[0].length + EXCERPT_RADIUS);
+      findings.push({ rule, excerpt: text.slice(start, end).replace(/\s+/g, ' ').trim() });
+      if (findings.length >= MAX_FINDINGS) return findings;
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Strips characters that hide text from a human reviewer or impersonate prompt structure:
+ * control and zero-width characters, chat special tokens and our own delimiter tags.
+ */
+export function sanitizeUntrustedText(text: string) {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, '')
+    .replace(/[\u200B-\u200F\u202A-\u202E\u2060-\u2064\uFEFF]/g, '')
+    .replace(/<\|[^|>\n]{1,40}\|>/g, '')
+    .replace(/<\/?\s*(?:study[_-]?guide|previous[_-]?questions)\s*>/gi, '');
+}
+
+/**
+ * Cleans the questions a client asks the model to avoid repeating; they reach the prompt like study
+ * material does. Entries that read like instructions are dropped, as no question the player was shown
+ * would, and the rest are sanitized and trimmed to at most `maxQuestions`.
+ */
+export function sanitizeAvoidQuestions(value: unknown, maxQuestions: number) {
+  if (!Array.isArray(value)) return [];
+
+  const questions = value
+    .filter((item): item is string => typeof item === 'string')
+    .map((item) => sanitizeUntrustedText(item).replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+  const safe = questions.filter((question) => !detectInstructionLikeContent(question).length);
+  if (safe.length < questions.length) {
+    console.warn(`Dropped ${questions.length - safe.length} instruction-like question(s) from the avoid list`);
+  }
+  return safe.map((question) => question.slice(0, MAX_AVOID_QUESTION_CHARS)).slice(0, maxQuestions);
+}
+
+/**
+ * Checks generated questions against the supplied material. Questions that echo the prompt are always
+ * rejected; with `requireOverlap`, a question must also share vocabulary with the material. That check
+ * assumes the quiz is written in the material's language, so callers skip it for translated quizzes.
+ */
+export function createMaterialGuard(material: string, { requireOverlap = false } = {}): MaterialGuard {
+  const lowered = material.toLowerCase();
+  // A study guide about prompting may legitimately say "system prompt"; only flag what it does not contain.
+  const leakMarkers = PROMPT_LEAK_MARKERS.filter((marker) => !lowered.includes(marker));
+  const materialWords = requireOverlap ? getContentWords(material) : new Set<string>();
+
+  return {
+    check(question) {
+      const text = getQuestionText(question).toLowerCase();
+      if (leakMarkers.some((marker) => text.includes(marker))) {
+        return 'Question repeats the generation instructions';
+      }
+
+      if (requireOverlap) {
+        const words = getContentWords(`${question.question} ${getCorrectAnswerLabel(question)} ${question.explanation}`);
+        const onMaterial = Array.from(words).some((word) => word.length >= 4 && materialWords.has(word));
+        if (!onMaterial) {
+          return 'Question is not about the supplied material';
+        }
+      }
+
+      return null;
+    }
+  };
+}
@@ -0,0 +1,56 @@
+import { normalizeAnswerText } from './quizScoring';
+import type { HintLevel, QuestionHint, QuizQuestion } from '@/types/quiz';
+
+/** Hints are revealed in order: a gentle nudge first, then a stronger clue. */
+const HINT_LEVELS: HintLevel[] = ['nudge', 'clue'];
+export const MAX_HINT_LEVELS = HINT_LEVELS.length;
+export const HINT_LABELS: Record<HintLevel, string> = { nudge: 'Nudge', clue: 'Stronger clue' };
+const MAX_HINT_CHARS = 200;
+
+function containsPhrase(text: string, phrase: string) {
+  const normalizedPhrase = normalizeAnswerText(phrase);
+  return Boolean(normalizedPhrase) && ` ${normalizeAnswerText(text)} `.includes(` ${normalizedPhrase} `);
+}
+
+/** Whether `hint` states the answer outright, in which case it is no hint at all. */
+export function hintRevealsAnswer(hint: string, question: QuizQuestion) {
+  switch (question.type) {
+    case 'multiple-choice':
+      return containsPhrase(hint, question.options[question.answerIndex]);
+    case 'true-false':
+      // "True" and "False" are the answer itself, so a hint may use neither word.
+      return question.options.some((option) => containsPhrase(hint, option));
+    case 'multi-select':
+      return question.answerIndices.some((index) => containsPhrase(hint, question.options[index]));
+    case 'fill-in-the-blank':
+    case 'short-answer':
+      return [question.answer, ...question.acceptedAnswers].some((answer) => containsPhrase(hint, answer));
+    case 'numeric':
+      return containsPhrase(hint, String(question.answer));
+    case 'matching':
+      return question.pairs.some((pair) => containsPhrase(hint, pair.term) && containsPhrase(hint, pair.definition));
+    case 'ordering':
+      return question.items.every((item) => containsPhrase(hint, item));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Keeps the distinct, non-empty hints that do not give the answer away. The prompt asks for the nudge
+ * first and the clue second, so each hint keeps the level of its position in `raw` even when the other is dropped.
+ */
+export function sanitizeHints(raw: unknown, question: QuizQuestion) {
+  if (!Array.isArray(raw)) return [];
+
+  const hints: QuestionHint[] = [];
+  HINT_LEVELS.forEach((level, index) => {
+    const item = raw[index];
+    if (typeof item !== 'string') return;
+    const text = item.replace(/\s+/g, ' ').trim();
+    if (!text || text.length > MAX_HINT_CHARS || hints.some((hint) => hint.text === text)) return;
+    if (hintRevealsAnswer(text, question)) return;
+    hints.push({ level, text });
+  });
+  return hints;
+}
@@ -0,0 +1,109 @@
+import type { QuestionMix, QuestionType, QuestionTypeSetting } from '@/types/quiz';
+
+export const QUESTION_TYPES: QuestionType[] = [
+  'multiple-choice',
+  'true-false',
+  'multi-select',
+  'fill-in-the-blank',
+  'short-answer',
+  'matching',
+  'ordering',
+  'numeric'
+];
+
+/** Short labels for question-type badges on the dashboard and in the history list. */
+export const QUESTION_TYPE_BADGES: Record<QuestionTypeSetting, string> = {
+  'multiple-choice': 'MCQ',
+  'true-false': 'True/False',
+  'multi-select': 'Select All',
+  'fill-in-the-blank': 'Fill Blank',
+  'short-answer': 'Short Answer',
+  matching: 'Matching',
+  ordering: 'Ordering',
+  numeric: 'Numeric',
+  mixed: 'Mixed'
+};
+
+export const DEFAULT_QUESTION_MIX: QuestionMix = {
+  'multiple-choice': 60,
+  'true-false': 20,
+  'short-answer': 20
+};
+
+/** Keeps only known question types with positive, finite weights. */
+export function sanitizeQuestionMix(value: unknown): QuestionMix {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+
+  const record = value as Record<string, unknown>;
+  const mix: QuestionMix = {};
+  for (const type of QUESTION_TYPES) {
+    const weight = Number(record[type]);
+    if (Number.isFinite(weight) && weight > 0) {
+      mix[type] = weight;
+    }
+  }
+  return mix;
+}
+
+/**
+ * Splits `total` into whole numbers proportional to `weights`, using largest remainders
+ * so 60/20/20 of 7 becomes 4/2/1 rather than 4/1/1.
+ */
+export function allocateByWeight(weights: number[], total: number) {
+  const weightSum = weights.reduce((sum, weight) => sum + Math.max(0, weight), 0);
+  if (!weightSum || total <= 0) return weights.map(() => 0);
+
+  const shares = weights.map((weight, index) => {
+    const exact = (Math.max(0, weight) / weightSum) * total;
+    return { index, count: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+
+  let unassigned = total - shares.reduce((sum, share) => sum + share.count, 0);
+  [...shares]
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach((share) => {
+      if (unassigned <= 0) return;
+      share.count += 1;
+      unassigned -= 1;
+    });
+
+  return shares.map((share) => share.count);
+}
+
+/** Turns relative weights (e.g. percentages) into whole question counts that add up to `total`. */
+export function allocateQuestionCounts(mix: QuestionMix, total: number): QuestionMix {
+  const counts = allocateByWeight(QUESTION_TYPES.map((type) => mix[type] ?? 0), total);
+
+  const allocated: QuestionMix = {};
+  QUESTION_TYPES.forEach((type, index) => {
+    if (counts[index] > 0) allocated[type] = counts[index];
+  });
+  return allocated;
+}
+
+/**
+ * Deals the exact per-type counts of `mix` out across batches of the given sizes. Each type is
+ * spread evenly through the sequence first, so every batch gets a share of the variety.
+ */
+export function splitQuestionMix(mix: QuestionMix, sizes: number[]): QuestionMix[] {
+  const sequence = QUESTION_TYPES.flatMap((type) => {
+    const count = mix[type] ?? 0;
+    return Array.from({ length: count }, (_, position) => ({ type, key: (position + 0.5) / count }));
+  })
+    .sort((a, b) => a.key - b.key)
+    .map((item) => item.type);
+
+  let offset = 0;
+  return sizes.map((size) => {
+    const batch: QuestionMix = {};
+    sequence.slice(offset, offset + size).forEach((type) => {
+      batch[type] = (batch[type] ?? 0) + 1;
+    });
+    offset += size;
+    return batch;
+  });
+}
+
+export function getMixTotal(mix: QuestionMix) {
+  return QUESTION_TYPES.reduce((sum, type) => sum + (mix[type] ?? 0), 0);
+}
@@ -0,0 +1,95 @@
+import type { QuizQuestion } from '@/types/quiz';
+
+/** Jaccard similarity at or above which two questions count as the same question reworded. */
+export const NEAR_DUPLICATE_THRESHOLD = 0.7;
+/** Most previously seen questions a quiz request may ask the model to avoid. */
+export const MAX_EXCLUDED_QUESTIONS = 200;
+// Question scaffolding ("Which of the following is...") says nothing about what is being asked.
+const STOP_WORDS = new Set(
+  (
+    'a an the of in on at to for from by with into during about after before between than and or is are was were ' +
+    'be been being has have had can will would should what which who whom whose when where why how does do did ' +
+    'that this these those it its as following known called best most select all apply statement true false'
+  ).split(' ')
+);
+
+// Letters and digits in any script count, so quizzes generated in Japanese or Russian compare too.
+export function normalizeQuestionText(question: string) {
+  return question
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Text that identifies a question for duplicate checks. Matching and ordering prompts are generic
+ * ("Put these events in order"), so their terms or items are part of what makes them distinct.
+ */
+export function getQuestionFingerprint(question: QuizQuestion) {
+  switch (question.type) {
+    case 'matching':
+      return `${question.question} (${question.pairs.map((pair) => pair.term).join(', ')})`;
+    case 'ordering':
+      return `${question.question} (${question.items.join(', ')})`;
+    default:
+      return question.question;
+  }
+}
+
+/** Crude suffix stripping so "absorb", "absorbs" and "absorbed" compare equal. */
+function stemWord(word: string) {
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && (word.endsWith('ed') || word.endsWith('es'))) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * The set of stemmed content words in a question. Comparing sets rather than word sequences
+ * catches rewordings that reorder the question ("World War II ended in which year?").
+ */
+export function getContentWords(question: string) {
+  return new Set(
+    normalizeQuestionText(question)
+      .split(' ')
+      .filter((word) => word && !STOP_WORDS.has(word))
+      .map(stemWord)
+  );
+}
+
+export function getJaccardSimilarity(a: Set<string>, b: Set<string>) {
+  if (!a.size || !b.size) return 0;
+  let shared = 0;
+  a.forEach((word) => {
+    if (b.has(word)) shared += 1;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+export type DuplicateDetector = {
+  /** Returns true when `question` matches or closely rewords one already added. */
+  isDuplicate(question: string): boolean;
+  add(question: string): void;
+};
+
+export function createDuplicateDetector(initialQuestions: string[] = [], threshold = NEAR_DUPLICATE_THRESHOLD) {
+  const exact = new Set<string>();
+  const wordSets: Set<string>[] = [];
+
+  const detector: DuplicateDetector = {
+    isDuplicate(question) {
+      if (exact.has(normalizeQuestionText(question))) return true;
+      const words = getContentWords(question);
+      return wordSets.some((existing) => getJaccardSimilarity(words, existing) >= threshold);
+    },
+    add(question) {
+      exact.add(normalizeQuestionText(question));
+      wordSets.push(getContentWords(question));
+    }
+  };
+
+  initialQuestions.forEach(detector.add);
+  return detector;
+}
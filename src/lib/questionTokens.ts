@@ -0,0 +1,90 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { AnswerValue } from './quizScoring';
+import type { ExplanationMessage, QuizQuestion, QuizStreamEvent } from '@/types/quiz';
+
+let secret: Buffer | undefined;
+
+/** QUIZ_SIGNING_SECRET, or a random per-process secret, under which tokens stop verifying after a restart. */
+function getSecret() {
+  if (!secret) {
+    const configured = process.env.QUIZ_SIGNING_SECRET?.trim();
+    if (!configured) {
+      console.warn('QUIZ_SIGNING_SECRET is not set; quiz questions can only be explained until the server restarts.');
+    }
+    secret = configured ? Buffer.from(configured) : randomBytes(32);
+  }
+  return secret;
+}
+
+// Key order is not preserved by every store a quiz passes through (Firestore history, for one).
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, entry]) => entry !== undefined);
+    entries.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function sign(purpose: 'question' | 'reply', payload: unknown) {
+  return createHmac('sha256', getSecret()).update(`${purpose}\n${stableStringify(payload)}`).digest('base64url');
+}
+
+function matches(token: unknown, expected: string) {
+  return (
+    typeof token === 'string' &&
+    token.length === expected.length &&
+    timingSafeEqual(Buffer.from(token), Buffer.from(expected))
+  );
+}
+
+function withoutToken(question: object) {
+  return Object.fromEntries(Object.entries(question).filter(([key]) => key !== 'token'));
+}
+
+/** Adds a `token` vouching that this app generated the question exactly as it stands. */
+export function signQuestion<T extends QuizQuestion>(question: T): T {
+  return { ...question, token: sign('question', withoutToken(question)) };
+}
+
+/** Whether a question sent back by a client is one this app generated, unchanged. */
+export function verifyQuestion(question: unknown): question is QuizQuestion & { token: string } {
+  if (!question || typeof question !== 'object') return false;
+  const { token } = question as { token?: unknown };
+  return matches(token, sign('question', withoutToken(question)));
+}
+
+/** Signs every question of a generation, in the events and in the finished quiz. */
+export async function* signQuizEvents(events: AsyncIterable<QuizStreamEvent>): AsyncGenerator<QuizStreamEvent> {
+  for await (const event of events) {
+    if (event.type === 'question') {
+      yield { ...event, question: signQuestion(event.question) };
+    } else if (event.type === 'done') {
+      yield { ...event, quiz: { ...event.quiz, questions: event.quiz.questions.map(signQuestion) } };
+    } else {
+      yield event;
+    }
+  }
+}
+
+function getReplyPayload(questionToken: string, selected: AnswerValue, thread: ExplanationMessage[]) {
+  return { questionToken, selected, thread: thread.map(({ role, content }) => ({ role, content })) };
+}
+
+/**
+ * Signs the tutor reply ending `thread` together with the question, the answer and every turn before it,
+ * so a client can only send back replies the tutor actually gave in that conversation.
+ */
+export function signReply(questionToken: string, selected: AnswerValue, thread: ExplanationMessage[]) {
+  return sign('reply', getReplyPayload(questionToken, selected, thread));
+}
+
+/** Whether every tutor reply in `thread` carries the token this app issued for it. */
+export function verifyThread(questionToken: string, selected: AnswerValue, thread: ExplanationMessage[]) {
+  return thread.every(
+    (message, index) =>
+      message.role !== 'assistant' ||
+      matches(message.token, signReply(questionToken, selected, thread.slice(0, index + 1)))
+  );
+}
@@ -0,0 +1,221 @@
+import { createHash } from 'crypto';
+import { createDuplicateDetector, getQuestionFingerprint } from './questionSimilarity';
+import type { Difficulty, QuestionMix, QuestionTypeSetting, QuizMode, QuizPayload, QuizStreamEvent } from '@/types/quiz';
+
+/** Everything that changes what the model is asked for; two requests with equal parts get the same quiz. */
+export type QuizCacheKeyParts = {
+  mode: QuizMode;
+  content: string;
+  questionType: QuestionTypeSetting;
+  difficulty: Difficulty;
+  count: number;
+  questionMix?: QuestionMix;
+  sections?: number[];
+  language: string;
+  learnerLanguage?: string;
+};
+
+export interface QuizCacheStore {
+  get(key: string): Promise<QuizPayload | undefined>;
+  set(key: string, quiz: QuizPayload, ttlMs: number): Promise<void>;
+}
+
+/** The right to generate a quiz that identical requests are waiting on. */
+export type QuizCacheClaim = {
+  /** Passes generation events through, sharing the finished quiz with waiting requests and the store. */
+  record(events: AsyncIterable<QuizStreamEvent>): AsyncGenerator<QuizStreamEvent>;
+  /** Gives the claim up without generating, e.g. when the charge was refused; a waiting request takes over. */
+  abandon(): void;
+};
+
+export type QuizCacheLookup = { quiz: QuizPayload; claim?: undefined } | { quiz: null; claim: QuizCacheClaim };
+
+export type QuizCacheOptions = {
+  store: QuizCacheStore;
+  ttlMs: number;
+  /**
+   * Pool questions from every generation of the same request regardless of count, and serve each
+   * hit as a random selection from the pool instead of replaying one quiz.
+   */
+  pool?: boolean;
+};
+
+const DEFAULT_TTL_SECONDS = 300;
+const MAX_MEMORY_ENTRIES = 200;
+const MAX_POOL_QUESTIONS = 60;
+
+function normalizeContent(content: string) {
+  return content.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+export function getQuizCacheKey(parts: QuizCacheKeyParts, includeCount = true) {
+  const normalized = {
+    mode: parts.mode,
+    content: createHash('sha256').update(normalizeContent(parts.content)).digest('hex'),
+    questionType: parts.questionType,
+    difficulty: parts.difficulty,
+    count: includeCount ? parts.count : undefined,
+    questionMix: parts.questionMix,
+    sections: parts.sections ? [...parts.sections].sort((a, b) => a - b) : undefined,
+    language: parts.language,
+    learnerLanguage: parts.learnerLanguage
+  };
+  return createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+}
+
+/** Process-local store; entries expire after their TTL and the oldest are evicted past `maxEntries`. */
+export function createMemoryCacheStore(maxEntries = MAX_MEMORY_ENTRIES): QuizCacheStore {
+  const entries = new Map<string, { quiz: QuizPayload; expiresAt: number }>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry.quiz;
+    },
+    async set(key, quiz, ttlMs) {
+      entries.delete(key);
+      while (entries.size >= maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+      entries.set(key, { quiz, expiresAt: Date.now() + ttlMs });
+    }
+  };
+}
+
+function pickQuestions(quiz: QuizPayload, count: number): QuizPayload {
+  const questions = [...quiz.questions];
+  for (let index = questions.length - 1; index > 0; index -= 1) {
+    const swap = Math.floor(Math.random() * (index + 1));
+    [questions[index], questions[swap]] = [questions[swap], questions[index]];
+  }
+  return { title: quiz.title, questions: questions.slice(0, count) };
+}
+
+/** Streams a cached quiz with the same events a fresh generation produces. */
+export async function* replayQuiz(quiz: QuizPayload): AsyncGenerator<QuizStreamEvent> {
+  yield { type: 'meta', title: quiz.title, expectedCount: quiz.questions.length };
+  for (const [index, question] of quiz.questions.entries()) {
+    yield { type: 'question', index, question };
+  }
+  yield { type: 'done', quiz };
+}
+
+export function createQuizCache({ store, ttlMs, pool = false }: QuizCacheOptions) {
+  const inFlight = new Map<string, Promise<QuizPayload>>();
+
+  async function save(parts: QuizCacheKeyParts, quiz: QuizPayload) {
+    if (!pool) {
+      await store.set(getQuizCacheKey(parts), quiz, ttlMs);
+      return;
+    }
+
+    const poolKey = getQuizCacheKey(parts, false);
+    const existing = (await store.get(poolKey))?.questions ?? [];
+    const duplicates = createDuplicateDetector(existing.map(getQuestionFingerprint));
+    const added = quiz.questions.filter((question) => {
+      const fingerprint = getQuestionFingerprint(question);
+      if (duplicates.isDuplicate(fingerprint)) return false;
+      duplicates.add(fingerprint);
+      return true;
+    });
+    const questions = [...existing, ...added].slice(-MAX_POOL_QUESTIONS);
+    await store.set(poolKey, { title: quiz.title, questions }, ttlMs);
+  }
+
+  function claim(key: string, parts: QuizCacheKeyParts): QuizCacheClaim {
+    let settle: { resolve(quiz: QuizPayload): void; reject(error: unknown): void } | undefined;
+    const result = new Promise<QuizPayload>((resolve, reject) => {
+      settle = { resolve, reject };
+    });
+    // Nobody may be waiting on a failed generation; that must not surface as an unhandled rejection.
+    result.catch(() => undefined);
+    inFlight.set(key, result);
+
+    const release = (reason: string) => {
+      if (inFlight.get(key) === result) inFlight.delete(key);
+      settle?.reject(new Error(reason));
+    };
+
+    return {
+      async *record(events) {
+        try {
+          for await (const event of events) {
+            if (event.type === 'done') {
+              settle?.resolve(event.quiz);
+              // Short quizzes are still shared with waiting requests but never stored.
+              if (!event.quiz.shortfall) {
+                await save(parts, event.quiz).catch((error) => console.error('Quiz cache write failed:', error));
+              }
+            }
+            yield event;
+          }
+        } catch (error) {
+          settle?.reject(error);
+          throw error;
+        } finally {
+          release('Quiz generation ended early');
+        }
+      },
+      abandon() {
+        release('Quiz generation was abandoned');
+      }
+    };
+  }
+
+  return {
+    /**
+     * Looks for a quiz for `parts` without calling the model: the result of an identical request still
+     * in flight, or a shuffled selection from the store. On a miss the caller gets a claim, registered in
+     * the same step as the miss so identical requests arriving while it is charged and generating wait
+     * for its quiz instead of calling the model again. The claim must be recorded or abandoned.
+     */
+    async get(parts: QuizCacheKeyParts): Promise<QuizCacheLookup> {
+      const key = getQuizCacheKey(parts);
+
+      for (;;) {
+        const pending = inFlight.get(key);
+        if (pending) {
+          const quiz = await pending.catch(() => null);
+          if (quiz) return { quiz: pickQuestions(quiz, parts.count) };
+        }
+
+        const cached = await store.get(getQuizCacheKey(parts, !pool));
+        if (cached && cached.questions.length >= parts.count) {
+          return { quiz: pickQuestions(cached, parts.count) };
+        }
+        // An identical request may have claimed the generation while the store was being read.
+        if (!inFlight.has(key)) return { quiz: null, claim: claim(key, parts) };
+      }
+    }
+  };
+}
+
+export type QuizCache = ReturnType<typeof createQuizCache>;
+
+let sharedCache: QuizCache | null | undefined;
+
+/**
+ * The cache used by /api/quiz, configured by QUIZ_CACHE_TTL_SECONDS (0 disables it) and
+ * QUIZ_CACHE_POOL=true for the pooled variant. Stored in memory, so it works without external services.
+ */
+export function getQuizCache() {
+  if (sharedCache !== undefined) return sharedCache;
+
+  const ttlSeconds = Number(process.env.QUIZ_CACHE_TTL_SECONDS ?? DEFAULT_TTL_SECONDS);
+  sharedCache =
+    Number.isFinite(ttlSeconds) && ttlSeconds > 0
+      ? createQuizCache({
+          store: createMemoryCacheStore(),
+          ttlMs: ttlSeconds * 1000,
+          pool: process.env.QUIZ_CACHE_POOL?.trim().toLowerCase() === 'true'
+        })
+      : null;
+  return sharedCache;
+}
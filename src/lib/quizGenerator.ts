@@ -0,0 +1,385 @@
+import type { LlmProvider } from '@/lib/llmProvider';
+import { allocateByWeight, getMixTotal, QUESTION_TYPES, splitQuestionMix } from '@/lib/questionMix';
+import {
+  buildUserPrompt,
+  extractJson,
+  getMixedSystemPrompt,
+  getSystemPrompt,
+  type PromptOptions,
+  type TrueFalseSplit
+} from '@/lib/quizPrompts';
+import { sanitizeHints } from '@/lib/questionHints';
+import { createDuplicateDetector, getQuestionFingerprint } from '@/lib/questionSimilarity';
+import { createSeededRandom } from '@/lib/quizShuffle';
+import { createQuizStreamParser } from '@/lib/quizStreamParser';
+import type { MaterialGuard } from '@/lib/promptInjection';
+import type { SourceVerifier } from '@/lib/sourceCitations';
+import { validateQuestion } from '@/lib/quizValidation';
+import type {
+  QuestionIssue,
+  QuestionMix,
+  QuestionTypeSetting,
+  QuizPayload,
+  QuizQuestion,
+  QuizStreamEvent,
+  QuizValidationReport
+} from '@/types/quiz';
+
+export type QuizGenerationOptions = Omit<PromptOptions, 'questionMix' | 'trueFalseSplit'> & {
+  questionType: QuestionTypeSetting;
+  /** Number of questions per type; required when `questionType` is 'mixed'. */
+  questionMix?: QuestionMix;
+  /** When set, every question must cite a quote the verifier can find in the study guide. */
+  sourceVerifier?: SourceVerifier;
+  /** Rejects questions that echo the prompt or wander off the supplied material. */
+  materialGuard?: MaterialGuard;
+  /** The quiz seed; makes choices such as which answer gets the odd true/false statement reproducible. */
+  seed?: string;
+};
+
+export type ChunkedQuizGenerationOptions = Omit<QuizGenerationOptions, 'content'> & {
+  /** Study guide sections, each small enough for a single prompt. */
+  sections: string[];
+};
+
+export class QuizGenerationError extends Error {
+  status: number;
+  validation?: QuizValidationReport;
+
+  constructor(message: string, status = 500, validation?: QuizValidationReport) {
+    super(message);
+    this.name = 'QuizGenerationError';
+    this.status = status;
+    this.validation = validation;
+  }
+}
+
+const MAX_TOP_UP_ATTEMPTS = 2;
+// Earlier questions beyond this many still count as duplicates, they just stop being listed in the prompt.
+const MAX_PROMPT_AVOID_QUESTIONS = 40;
+
+/** Splits the true/false statements evenly, giving the odd one to a side chosen by `random`. */
+function getTrueFalseSplit(count: number, random: () => number): TrueFalseSplit {
+  const larger = Math.ceil(count / 2);
+  return random() < 0.5 ? { true: larger, false: count - larger } : { true: count - larger, false: larger };
+}
+
+/** Reads the `type` a mixed-quiz question declares, tolerating "Multiple Choice" or "true_false" spellings. */
+function readDeclaredType(raw: unknown) {
+  const value = raw && typeof raw === 'object' ? (raw as Record<string, unknown>).type : undefined;
+  const normalized = typeof value === 'string' ? value.trim().toLowerCase().replace(/[\s_]+/g, '-') : '';
+  return { value: normalized, type: QUESTION_TYPES.find((type) => type === normalized) };
+}
+
+function parseQuizJson(text: string) {
+  const jsonText = extractJson(text) || text;
+  try {
+    return JSON.parse(jsonText) as Partial<QuizPayload> | null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Streams a quiz from the provider, validating each question as soon as it is parsed.
+ * Follow-up requests top up the quiz when the model returns too few valid questions.
+ * Always finishes with a `done` event carrying the complete payload.
+ */
+export async function* generateQuiz(
+  provider: LlmProvider,
+  { questionType, questionMix, sourceVerifier, materialGuard, avoidQuestions = [], seed, ...promptOptions }: QuizGenerationOptions
+): AsyncGenerator<QuizStreamEvent> {
+  const isMixed = questionType === 'mixed';
+  const quotas: QuestionMix = isMixed ? { ...questionMix } : { [questionType]: promptOptions.count };
+  const targetCount = getMixTotal(quotas);
+  if (!targetCount) {
+    throw new QuizGenerationError('Question mix must include at least one question type', 400);
+  }
+
+  const acceptedByType: QuestionMix = {};
+  const trueFalseQuota = getTrueFalseSplit(
+    quotas['true-false'] ?? 0,
+    seed ? createSeededRandom(`${seed}:true-false`) : Math.random
+  );
+  const acceptedTrueFalse: TrueFalseSplit = { true: 0, false: 0 };
+  // Statements beyond their answer's share are held back while top-ups ask for the other answer. They only
+  // fill true/false places once the top-ups have run out, so balance never leaves a quiz short.
+  const heldBack: { question: QuizQuestion; fingerprint: string; repaired: boolean }[] = [];
+  const questions: QuizQuestion[] = [];
+  const dropped: QuestionIssue[] = [];
+  // Questions to avoid (from earlier study guide sections or the player's history) count as already seen.
+  const duplicates = createDuplicateDetector(avoidQuestions);
+  let title = '';
+  let repaired = 0;
+  let rawCount = 0;
+  let parsedAnyResponse = false;
+  let metaSent = false;
+
+  const addQuestion = (question: QuizQuestion, fingerprint: string, wasRepaired: boolean) => {
+    duplicates.add(fingerprint);
+    acceptedByType[question.type] = (acceptedByType[question.type] ?? 0) + 1;
+    if (question.type === 'true-false') {
+      acceptedTrueFalse[question.answerIndex === 0 ? 'true' : 'false'] += 1;
+    }
+    if (wasRepaired) repaired += 1;
+    questions.push(question);
+    return question;
+  };
+
+  const acceptQuestion = (raw: unknown) => {
+    const index = rawCount;
+    rawCount += 1;
+
+    const questionText =
+      raw && typeof raw === 'object' ? String((raw as Record<string, unknown>).question ?? '').trim() : '';
+    const declared = questionType === 'mixed' ? readDeclaredType(raw) : { value: questionType, type: questionType };
+    const { type } = declared;
+    if (!type || !quotas[type]) {
+      dropped.push({ index, question: questionText, errors: [`Unexpected question type "${declared.value}"`] });
+      return null;
+    }
+
+    const result = validateQuestion(raw, type);
+    if (!result.question) {
+      dropped.push({ index, question: questionText, errors: result.errors });
+      return null;
+    }
+
+    if (sourceVerifier) {
+      const source = sourceVerifier.verify((raw as Record<string, unknown>).source);
+      if (!source) {
+        dropped.push({ index, question: questionText, errors: ['Source quote was not found in the study guide'] });
+        return null;
+      }
+      result.question.source = source;
+    }
+
+    // Hints are optional; ones that leak the answer are dropped rather than the whole question.
+    const hints = sanitizeHints((raw as Record<string, unknown>).hints, result.question);
+    if (hints.length) {
+      result.question.hints = hints;
+    }
+
+    const offMaterial = materialGuard?.check(result.question);
+    if (offMaterial) {
+      dropped.push({ index, question: questionText, errors: [offMaterial] });
+      return null;
+    }
+
+    const acceptedOfType = acceptedByType[type] ?? 0;
+    if (questions.length >= targetCount || acceptedOfType >= (quotas[type] ?? 0)) {
+      return null;
+    }
+
+    const fingerprint = getQuestionFingerprint(result.question);
+    if (duplicates.isDuplicate(fingerprint)) {
+      dropped.push({ index, question: questionText, errors: ['Duplicates or closely rewords an earlier question'] });
+      return null;
+    }
+
+    if (result.question.type === 'true-false') {
+      const answer = result.question.answerIndex === 0 ? 'true' : 'false';
+      if (acceptedTrueFalse[answer] >= trueFalseQuota[answer]) {
+        heldBack.push({ question: result.question, fingerprint, repaired: result.repaired });
+        return null;
+      }
+    }
+
+    return addQuestion(result.question, fingerprint, result.repaired);
+  };
+
+  const takeHeldBack = () => {
+    while (heldBack.length && questions.length < targetCount) {
+      if ((acceptedByType['true-false'] ?? 0) >= (quotas['true-false'] ?? 0)) return null;
+      const held = heldBack.shift();
+      if (held && !duplicates.isDuplicate(held.fingerprint)) {
+        return addQuestion(held.question, held.fingerprint, held.repaired);
+      }
+    }
+    return null;
+  };
+
+  function* emitQuestion(question: QuizQuestion | null): Generator<QuizStreamEvent> {
+    if (!question) return;
+
+    if (!metaSent) {
+      metaSent = true;
+      yield { type: 'meta', title, expectedCount: targetCount };
+    }
+    yield { type: 'question', index: questions.length - 1, question };
+  }
+
+  // The first request asks for the full quiz; follow-ups only ask for what is still missing.
+  for (let attempt = 0; attempt <= MAX_TOP_UP_ATTEMPTS && questions.length < targetCount; attempt += 1) {
+    const count = targetCount - questions.length;
+    const missingByType: QuestionMix = {};
+    QUESTION_TYPES.forEach((type) => {
+      const missing = (quotas[type] ?? 0) - (acceptedByType[type] ?? 0);
+      if (missing > 0) missingByType[type] = missing;
+    });
+
+    const parser = createQuizStreamParser();
+    let fullText = '';
+
+    const stream = provider.stream({
+      temperature: 0.9,
+      maxTokens: Math.min(8000, 800 + count * 350),
+      messages: [
+        {
+          role: 'system',
+          content: isMixed
+            ? getMixedSystemPrompt(QUESTION_TYPES.filter((type) => missingByType[type]))
+            : getSystemPrompt(questionType)
+        },
+        {
+          role: 'user',
+          content: buildUserPrompt({
+            ...promptOptions,
+            count,
+            questionMix: isMixed ? missingByType : undefined,
+            trueFalseSplit: quotas['true-false']
+              ? {
+                  true: Math.max(0, trueFalseQuota.true - acceptedTrueFalse.true),
+                  false: Math.max(0, trueFalseQuota.false - acceptedTrueFalse.false)
+                }
+              : undefined,
+            avoidQuestions: [...avoidQuestions, ...questions.map(getQuestionFingerprint)].slice(-MAX_PROMPT_AVOID_QUESTIONS)
+          })
+        }
+      ]
+    });
+
+    for await (const chunk of stream) {
+      fullText += chunk;
+      const rawQuestions = parser.push(chunk);
+      if (!title && parser.getTitle()) {
+        title = parser.getTitle();
+      }
+
+      for (const raw of rawQuestions) {
+        yield* emitQuestion(acceptQuestion(raw));
+      }
+
+      if (questions.length >= targetCount) break;
+    }
+
+    // Fall back to parsing the whole response when the model strayed from the expected shape.
+    const parsed = parser.hasQuestionsArray() ? null : parseQuizJson(fullText);
+    if (parser.hasQuestionsArray() || Array.isArray(parsed?.questions)) {
+      parsedAnyResponse = true;
+    }
+
+    if (!title && typeof parsed?.title === 'string') {
+      title = parsed.title.trim();
+    }
+
+    for (const raw of Array.isArray(parsed?.questions) ? parsed.questions : []) {
+      yield* emitQuestion(acceptQuestion(raw));
+    }
+  }
+
+  for (let held = takeHeldBack(); held; held = takeHeldBack()) {
+    yield* emitQuestion(held);
+  }
+
+  if (!parsedAnyResponse) {
+    throw new QuizGenerationError('Failed to parse AI response');
+  }
+
+  if (!questions.length) {
+    throw new QuizGenerationError('AI response contained no valid questions', 500, { repaired, dropped });
+  }
+
+  const quiz: QuizPayload = {
+    title: title.trim() || 'Generated Quiz',
+    questions
+  };
+
+  if (repaired || dropped.length) {
+    quiz.validation = { repaired, dropped };
+  }
+
+  if (questions.length < targetCount) {
+    quiz.shortfall = { requested: targetCount, generated: questions.length };
+  }
+
+  yield { type: 'done', quiz };
+}
+
+/**
+ * Generates one quiz from a long study guide a section at a time, so no prompt overflows the
+ * model context and later material gets its share of questions. Questions are allocated across
+ * sections by length, and each section avoids the questions earlier sections already produced.
+ */
+export async function* generateChunkedQuiz(
+  provider: LlmProvider,
+  { sections, ...options }: ChunkedQuizGenerationOptions
+): AsyncGenerator<QuizStreamEvent> {
+  const isMixed = options.questionType === 'mixed';
+  const targetCount = isMixed ? getMixTotal(options.questionMix ?? {}) : options.count;
+  const sectionCounts = allocateByWeight(sections.map((section) => section.length), targetCount);
+  const sectionMixes = isMixed ? splitQuestionMix(options.questionMix ?? {}, sectionCounts) : [];
+  const questions: QuizQuestion[] = [];
+  const dropped: QuestionIssue[] = [];
+  let title = '';
+  let repaired = 0;
+  let metaSent = false;
+
+  for (const [sectionIndex, content] of sections.entries()) {
+    const count = sectionCounts[sectionIndex];
+    if (!count) continue;
+
+    const events = generateQuiz(provider, {
+      ...options,
+      content,
+      count,
+      questionMix: isMixed ? sectionMixes[sectionIndex] : undefined,
+      // Each section decides its own odd true/false statement, so they do not all lean the same way.
+      seed: options.seed && `${options.seed}:${sectionIndex}`,
+      avoidQuestions: [...(options.avoidQuestions ?? []), ...questions.map(getQuestionFingerprint)]
+    });
+
+    try {
+      for await (const event of events) {
+        if (event.type === 'meta') {
+          title = title || event.title;
+          if (!metaSent) {
+            metaSent = true;
+            yield { type: 'meta', title: event.title, expectedCount: targetCount };
+          }
+        } else if (event.type === 'question') {
+          questions.push(event.question);
+          yield { type: 'question', index: questions.length - 1, question: event.question };
+        } else if (event.type === 'done') {
+          title = title || event.quiz.title;
+          repaired += event.quiz.validation?.repaired ?? 0;
+          dropped.push(...(event.quiz.validation?.dropped ?? []));
+        }
+      }
+    } catch (error) {
+      // One unusable section should not sink the whole quiz; provider failures still do.
+      if (!(error instanceof QuizGenerationError)) throw error;
+      repaired += error.validation?.repaired ?? 0;
+      dropped.push(...(error.validation?.dropped ?? []));
+    }
+  }
+
+  if (!questions.length) {
+    throw new QuizGenerationError('AI response contained no valid questions', 500, { repaired, dropped });
+  }
+
+  const quiz: QuizPayload = {
+    title: title.trim() || 'Generated Quiz',
+    questions
+  };
+
+  if (repaired || dropped.length) {
+    quiz.validation = { repaired, dropped };
+  }
+
+  if (questions.length < targetCount) {
+    quiz.shortfall = { requested: targetCount, generated: questions.length };
+  }
+
+  yield { type: 'done', quiz };
+}
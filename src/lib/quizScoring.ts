@@ -0,0 +1,243 @@
+import type { FreeResponseQuestion, NumericQuestion, QuizQuestion } from '@/types/quiz';
+
+/**
+ * A player's response: an option index for single-choice items, a set of indices for
+ * multi-select, an arrangement for matching/ordering, or typed text for free-response and numeric items.
+ */
+export type AnswerValue = number | number[] | string | null;
+
+const ARTICLE_PATTERN = /\b(a|an|the)\b/g;
+const NUMBER_SOURCE = '[+-]?(?:\\d+\\.?\\d*|\\.\\d+)(?:e[+-]?\\d+)?';
+const PLAIN_NUMBER_PATTERN = new RegExp(`^${NUMBER_SOURCE}$`, 'i');
+const TIMES_TEN_PATTERN = new RegExp(`^(${NUMBER_SOURCE})\\s*[x×*·]\\s*10\\s*(?:\\^|\\*\\*)\\s*\\(?([+-]?\\d+)\\)?$`, 'i');
+const FRACTION_PATTERN = new RegExp(`^(${NUMBER_SOURCE})\\s*/\\s*(${NUMBER_SOURCE})$`, 'i');
+const MIXED_NUMBER_PATTERN = /^([+-]?)(\d+)\s+(\d+)\s*\/\s*(\d+)$/;
+// Absorbs floating-point noise such as 0.1 + 0.2 when the tolerance is zero.
+const NUMERIC_EPSILON = 1e-9;
+
+/** Lowercases, strips accents, punctuation and articles so "The Treaty of Versailles." matches "treaty of versailles". */
+export function normalizeAnswerText(text: string) {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ')
+    .replace(ARTICLE_PATTERN, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function getEditDistance(a: string, b: string) {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function getAllowedTypos(expected: string) {
+  // Numbers and very short answers must match exactly; "1944" is not a typo of "1945".
+  if (/\d/.test(expected) || expected.length <= 4) return 0;
+  // Two typos only from ten characters on, or "austria" would pass for "australia".
+  if (expected.length <= 9) return 1;
+  return 2;
+}
+
+/** Grades typed text against the canonical answer and its accepted variants, tolerating small typos. */
+export function gradeFreeResponse(response: string, question: FreeResponseQuestion) {
+  const normalizedResponse = normalizeAnswerText(response);
+  if (!normalizedResponse) return 0;
+
+  const candidates = [question.answer, ...question.acceptedAnswers].map(normalizeAnswerText).filter(Boolean);
+  const matches = candidates.some(
+    (candidate) => getEditDistance(normalizedResponse, candidate) <= getAllowedTypos(candidate)
+  );
+  return matches ? 1 : 0;
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Parses a typed number such as "1,200", "-3.5", "6.02e23", "6.02 × 10^23", "3/4" or "1 1/2".
+ * A trailing `unit` is ignored when it matches the expected one; any other text makes the answer unreadable.
+ */
+export function parseNumericAnswer(text: string, unit?: string) {
+  let value = text
+    .trim()
+    .replace(/[\u2212\u2013]/g, '-')
+    .replace(/(\d),(?=\d{3}\b)/g, '$1');
+
+  if (unit) {
+    value = value.replace(new RegExp(`\\s*${escapeRegExp(unit)}$`, 'i'), '').trim();
+  }
+
+  if (PLAIN_NUMBER_PATTERN.test(value)) {
+    return Number(value);
+  }
+
+  const timesTen = value.match(TIMES_TEN_PATTERN);
+  if (timesTen) {
+    return Number(timesTen[1]) * 10 ** Number(timesTen[2]);
+  }
+
+  const mixed = value.match(MIXED_NUMBER_PATTERN);
+  if (mixed && Number(mixed[4]) !== 0) {
+    const magnitude = Number(mixed[2]) + Number(mixed[3]) / Number(mixed[4]);
+    return mixed[1] === '-' ? -magnitude : magnitude;
+  }
+
+  const fraction = value.match(FRACTION_PATTERN);
+  if (fraction && Number(fraction[2]) !== 0) {
+    return Number(fraction[1]) / Number(fraction[2]);
+  }
+
+  return null;
+}
+
+/** Accepts the response when it falls within either the absolute or the relative tolerance. */
+export function gradeNumeric(response: string, question: NumericQuestion) {
+  const value = parseNumericAnswer(response, question.unit);
+  if (value === null || !Number.isFinite(value)) return 0;
+
+  const allowed = Math.max(question.absoluteTolerance, question.relativeTolerance * Math.abs(question.answer));
+  return Math.abs(value - question.answer) <= allowed + NUMERIC_EPSILON ? 1 : 0;
+}
+
+export function formatNumericAnswer(question: NumericQuestion) {
+  const allowed = Math.max(question.absoluteTolerance, question.relativeTolerance * Math.abs(question.answer));
+  const unit = question.unit ? ` ${question.unit}` : '';
+  const tolerance = allowed > 0 ? ` (±${Number(allowed.toPrecision(3))}${unit})` : '';
+  return `${question.answer}${unit}${tolerance}`;
+}
+
+/**
+ * Multi-select partial credit: each correct pick earns a share of the point and each wrong
+ * pick cancels one out, so selecting every option never beats answering carefully.
+ */
+export function scoreMultiSelect(selected: number[], correct: number[]) {
+  if (!correct.length) return 0;
+  const correctSet = new Set(correct);
+  const hits = selected.filter((index) => correctSet.has(index)).length;
+  const misses = selected.length - hits;
+  return Math.max(0, (hits - misses) / correct.length);
+}
+
+/**
+ * Matching and ordering answers are arrangements where `arrangement[slot]` is the index of the
+ * item the player placed in that slot; a slot is correct when it holds its own index.
+ */
+export function getArrangementSlotResults(arrangement: number[]) {
+  return arrangement.map((itemIndex, slot) => itemIndex === slot);
+}
+
+/** Each correct slot of an arrangement earns an equal share of the point. */
+export function scoreArrangement(arrangement: number[], size: number) {
+  if (!size) return 0;
+  const correctSlots = getArrangementSlotResults(arrangement.slice(0, size)).filter(Boolean).length;
+  return correctSlots / size;
+}
+
+/** Returns the credit earned for an answer, from 0 (wrong) to 1 (fully correct). */
+export function gradeAnswer(question: QuizQuestion, answer: AnswerValue) {
+  if (answer === null) return 0;
+
+  switch (question.type) {
+    case 'multi-select':
+      return Array.isArray(answer) ? scoreMultiSelect(answer, question.answerIndices) : 0;
+    case 'fill-in-the-blank':
+    case 'short-answer':
+      return typeof answer === 'string' ? gradeFreeResponse(answer, question) : 0;
+    case 'numeric':
+      return typeof answer === 'string' ? gradeNumeric(answer, question) : 0;
+    case 'matching':
+      return Array.isArray(answer) ? scoreArrangement(answer, question.pairs.length) : 0;
+    case 'ordering':
+      return Array.isArray(answer) ? scoreArrangement(answer, question.items.length) : 0;
+    default:
+      return answer === question.answerIndex ? 1 : 0;
+  }
+}
+
+export function getCorrectOptionIndices(question: QuizQuestion) {
+  switch (question.type) {
+    case 'multi-select':
+      return question.answerIndices;
+    case 'multiple-choice':
+    case 'true-false':
+      return [question.answerIndex];
+    default:
+      return [];
+  }
+}
+
+export function isFreeResponseQuestion(question: QuizQuestion): question is FreeResponseQuestion {
+  return question.type === 'fill-in-the-blank' || question.type === 'short-answer';
+}
+
+export function formatScore(score: number) {
+  return Number.isInteger(score) ? String(score) : score.toFixed(1);
+}
+
+function getArrangementLabel(question: QuizQuestion, arrangement: number[]) {
+  if (question.type === 'matching') {
+    return question.pairs
+      .map((pair, slot) => `${pair.term} → ${question.pairs[arrangement[slot]]?.definition ?? '?'}`)
+      .join('; ');
+  }
+  if (question.type === 'ordering') {
+    return arrangement.map((itemIndex) => question.items[itemIndex]).join(' → ');
+  }
+  return '';
+}
+
+export function getAnswerLabel(question: QuizQuestion, answer: AnswerValue | undefined) {
+  if (answer === null || answer === undefined) return 'No answer selected';
+  if (typeof answer === 'string') return answer.trim() || 'No answer selected';
+  if (Array.isArray(answer) && (question.type === 'matching' || question.type === 'ordering')) {
+    return getArrangementLabel(question, answer);
+  }
+  if (!('options' in question)) return 'No answer selected';
+
+  const indices = Array.isArray(answer) ? answer : [answer];
+  const labels = indices.map((index) => question.options[index]).filter(Boolean);
+  return labels.length ? labels.join(', ') : 'No answer selected';
+}
+
+export function getCorrectAnswerLabel(question: QuizQuestion) {
+  if (isFreeResponseQuestion(question)) return question.answer;
+  if (question.type === 'numeric') return formatNumericAnswer(question);
+  if (question.type === 'matching') return getArrangementLabel(question, question.pairs.map((_, index) => index));
+  if (question.type === 'ordering') return getArrangementLabel(question, question.items.map((_, index) => index));
+  return getAnswerLabel(question, getCorrectOptionIndices(question));
+}
+
+/** Every piece of text a question shows the player, one per line. */
+export function getQuestionText(question: QuizQuestion) {
+  const parts = [question.question, question.explanation, ...(question.hints ?? []).map((hint) => hint.text)];
+  switch (question.type) {
+    case 'multiple-choice':
+    case 'true-false':
+    case 'multi-select':
+      return [...parts, ...question.options].join('\n');
+    case 'matching':
+      return [...parts, ...question.pairs.flatMap((pair) => [pair.term, pair.definition])].join('\n');
+    case 'ordering':
+      return [...parts, ...question.items].join('\n');
+    case 'fill-in-the-blank':
+    case 'short-answer':
+      return [...parts, question.answer, ...question.acceptedAnswers].join('\n');
+    default:
+      return parts.join('\n');
+  }
+}
@@ -0,0 +1,103 @@
+import type { QuizPayload, QuizQuestion, QuizStreamEvent } from '@/types/quiz';
+
+/** FNV-1a: turns any seed string into a 32-bit starting state. */
+function hashSeed(seed: string) {
+  let hash = 2166136261;
+  for (let index = 0; index < seed.length; index += 1) {
+    hash ^= seed.charCodeAt(index);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+/** Mulberry32 generator: small, fast and identical on every runtime for the same seed. */
+export function createSeededRandom(seed: string) {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Fisher–Yates shuffle driven by `random`, e.g. a createSeededRandom generator for a reproducible order. */
+export function seededShuffle<T>(items: T[], random: () => number) {
+  const shuffled = [...items];
+  for (let index = shuffled.length - 1; index > 0; index -= 1) {
+    const swapIndex = Math.floor(random() * (index + 1));
+    [shuffled[index], shuffled[swapIndex]] = [shuffled[swapIndex], shuffled[index]];
+  }
+  return shuffled;
+}
+
+/**
+ * Picks the slot for the correct option of question `index`. Slots are dealt from a shuffled
+ * deck per block of `optionCount` questions, so every slot is used equally often.
+ */
+function getBalancedSlot(seed: string, index: number, optionCount: number) {
+  const block = Math.floor(index / optionCount);
+  const deck = seededShuffle(
+    Array.from({ length: optionCount }, (_, slot) => slot),
+    createSeededRandom(`${seed}:slots:${block}`)
+  );
+  return deck[index % optionCount];
+}
+
+/**
+ * Reorders the options of question `index` for the quiz `seed`, remapping the answer indices.
+ * Deterministic, so a streamed question and the same question in the final payload always match.
+ */
+export function shuffleQuestionOptions(question: QuizQuestion, seed: string, index: number): QuizQuestion {
+  const random = createSeededRandom(`${seed}:${index}`);
+
+  switch (question.type) {
+    case 'multiple-choice': {
+      const correct = question.options[question.answerIndex];
+      const distractors = seededShuffle(
+        question.options.filter((_, optionIndex) => optionIndex !== question.answerIndex),
+        random
+      );
+      const slot = getBalancedSlot(seed, index, question.options.length);
+      distractors.splice(slot, 0, correct);
+      return { ...question, options: distractors, answerIndex: slot };
+    }
+    case 'multi-select': {
+      const order = seededShuffle(question.options.map((_, optionIndex) => optionIndex), random);
+      return {
+        ...question,
+        options: order.map((optionIndex) => question.options[optionIndex]),
+        answerIndices: order
+          .map((optionIndex, slot) => (question.answerIndices.includes(optionIndex) ? slot : -1))
+          .filter((slot) => slot !== -1)
+      };
+    }
+    default:
+      return question;
+  }
+}
+
+export function shuffleQuizPayload(quiz: QuizPayload, seed: string): QuizPayload {
+  return {
+    ...quiz,
+    questions: quiz.questions.map((question, index) => shuffleQuestionOptions(question, seed, index)),
+    seed
+  };
+}
+
+/** Applies seeded option shuffling to every question in a generation stream. */
+export async function* shuffleQuizEvents(
+  events: AsyncIterable<QuizStreamEvent>,
+  seed: string
+): AsyncGenerator<QuizStreamEvent> {
+  for await (const event of events) {
+    if (event.type === 'question') {
+      yield { ...event, question: shuffleQuestionOptions(event.question, seed, event.index) };
+    } else if (event.type === 'done') {
+      yield { ...event, quiz: shuffleQuizPayload(event.quiz, seed) };
+    } else {
+      yield event;
+    }
+  }
+}
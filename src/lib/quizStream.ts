@@ -0,0 +1,37 @@
+import type { QuizStreamEvent } from '@/types/quiz';
+
+/**
+ * Reads the newline-delimited JSON events written by `/api/quiz` when `stream: true`
+ * and hands each one to `onEvent` as soon as its line is complete.
+ */
+export async function readQuizStream(response: Response, onEvent: (event: QuizStreamEvent) => void) {
+  if (!response.body) {
+    throw new Error('Quiz stream is unavailable');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const flushLine = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+    onEvent(JSON.parse(trimmed) as QuizStreamEvent);
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      lines.forEach(flushLine);
+    }
+
+    flushLine(buffer + decoder.decode());
+  } finally {
+    reader.releaseLock();
+  }
+}
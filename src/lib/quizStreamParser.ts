@@ -0,0 +1,102 @@
+const TITLE_PATTERN = /"title"\s*:\s*"((?:[^"\\]|\\.)*)"/;
+const QUESTIONS_ARRAY_PATTERN = /"questions"\s*:\s*\[/;
+
+export type QuizStreamParser = {
+  /** Appends model output and returns any question objects completed by it. */
+  push(chunk: string): unknown[];
+  getTitle(): string;
+  hasQuestionsArray(): boolean;
+};
+
+/**
+ * Incrementally pulls complete objects out of the `questions` array of a quiz JSON
+ * document while the model is still writing it.
+ */
+export function createQuizStreamParser(): QuizStreamParser {
+  let buffer = '';
+  let title = '';
+  let arrayStart = -1;
+  let cursor = 0;
+  let depth = 0;
+  let objectStart = -1;
+  let inString = false;
+  let escaped = false;
+  let arrayClosed = false;
+
+  function readTitle() {
+    const header = arrayStart === -1 ? buffer : buffer.slice(0, arrayStart);
+    const match = header.match(TITLE_PATTERN);
+    if (!match) return;
+
+    try {
+      title = JSON.parse(`"${match[1]}"`);
+    } catch {
+      title = match[1];
+    }
+  }
+
+  function push(chunk: string) {
+    buffer += chunk;
+    const completed: unknown[] = [];
+
+    if (arrayStart === -1) {
+      const match = QUESTIONS_ARRAY_PATTERN.exec(buffer);
+      if (match) {
+        arrayStart = match.index + match[0].length;
+        cursor = arrayStart;
+      }
+    }
+
+    if (!title) {
+      readTitle();
+    }
+
+    if (arrayStart === -1 || arrayClosed) {
+      return completed;
+    }
+
+    for (; cursor < buffer.length; cursor += 1) {
+      const char = buffer[cursor];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{') {
+        if (depth === 0) objectStart = cursor;
+        depth += 1;
+      } else if (char === '}') {
+        depth -= 1;
+        if (depth === 0 && objectStart !== -1) {
+          try {
+            completed.push(JSON.parse(buffer.slice(objectStart, cursor + 1)));
+          } catch {
+            // Surface unparseable items so validation can report them.
+            completed.push(null);
+          }
+          objectStart = -1;
+        }
+      } else if (char === ']' && depth === 0) {
+        arrayClosed = true;
+        break;
+      }
+    }
+
+    return completed;
+  }
+
+  return {
+    push,
+    getTitle: () => title,
+    hasQuestionsArray: () => arrayStart !== -1
+  };
+}
@@ -0,0 +1,444 @@
+import { normalizeAnswerText, parseNumericAnswer } from '@/lib/quizScoring';
+import type { QuestionType, QuizQuestion } from '@/types/quiz';
+
+type QuestionCheck = {
+  question: QuizQuestion | null;
+  repaired: boolean;
+  errors: string[];
+};
+
+const MCQ_OPTION_COUNT = 4;
+const MULTI_SELECT_MAX_CORRECT = 3;
+const TRUE_FALSE_OPTIONS = ['True', 'False'];
+const OPTION_PREFIX_PATTERN = /^\(?[A-Da-d1-4][).:]\s+/;
+const BLANK_PATTERN = /_{3,}/;
+const FREE_RESPONSE_MAX_WORDS = 6;
+const SEQUENCE_MIN_ITEMS = 3;
+const SEQUENCE_MAX_ITEMS = 6;
+const SEQUENCE_PREFIX_PATTERN = /^\(?\d+[).:]\s+/;
+const DEFAULT_RELATIVE_TOLERANCE = 0.01;
+const MAX_RELATIVE_TOLERANCE = 0.1;
+// An absolute tolerance may be as wide as the relative cap, or half a unit for answers near zero.
+const MIN_ABSOLUTE_TOLERANCE_CAP = 0.5;
+
+function asTrimmedString(value: unknown) {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return '';
+}
+
+function stripOptionPrefixes(options: string[]) {
+  // Only strip "A) ..." style labels when every option carries one, so real content like "1. Ordered list" survives.
+  if (!options.length || !options.every((option) => OPTION_PREFIX_PATTERN.test(option))) {
+    return options;
+  }
+  return options.map((option) => option.replace(OPTION_PREFIX_PATTERN, '').trim());
+}
+
+function findOptionIndex(options: string[], value: unknown) {
+  const text = asTrimmedString(value).toLowerCase();
+  return text ? options.findIndex((option) => option.toLowerCase() === text) : -1;
+}
+
+function resolveAnswerIndex(raw: Record<string, unknown>, options: string[]) {
+  const { answerIndex } = raw;
+  if (typeof answerIndex === 'number') {
+    return { value: answerIndex, repaired: false };
+  }
+
+  if (typeof answerIndex === 'string' && /^\d+$/.test(answerIndex.trim())) {
+    return { value: Number(answerIndex.trim()), repaired: true };
+  }
+
+  // Some models answer with the option text instead of its index.
+  const matchIndex = findOptionIndex(options, raw.answer ?? raw.correctAnswer ?? answerIndex);
+  if (matchIndex !== -1) {
+    return { value: matchIndex, repaired: true };
+  }
+
+  return { value: Number.NaN, repaired: false };
+}
+
+function resolveAnswerIndices(raw: Record<string, unknown>, options: string[]) {
+  const source = raw.answerIndices ?? raw.answers ?? raw.correctAnswers;
+  if (!Array.isArray(source)) {
+    return { values: [], repaired: false };
+  }
+
+  let repaired = false;
+  const values = source.map((item) => {
+    if (typeof item === 'number') return item;
+    repaired = true;
+    if (typeof item === 'string' && /^\d+$/.test(item.trim())) return Number(item.trim());
+    return findOptionIndex(options, item);
+  });
+
+  return { values, repaired };
+}
+
+function checkTrueFalse(options: string[], answerIndex: number, errors: string[]) {
+  const lowered = options.map((option) => option.toLowerCase());
+  if (lowered.length !== 2 || !lowered.includes('true') || !lowered.includes('false')) {
+    errors.push('True/False options must be exactly ["True", "False"]');
+    return { options, answerIndex, repaired: false };
+  }
+
+  const reversed = lowered[0] === 'false';
+  const nextAnswerIndex = reversed && (answerIndex === 0 || answerIndex === 1) ? 1 - answerIndex : answerIndex;
+  const repaired = reversed || options.some((option, index) => option !== TRUE_FALSE_OPTIONS[index]);
+
+  if (nextAnswerIndex !== 0 && nextAnswerIndex !== 1) {
+    errors.push('answerIndex must be 0 (True) or 1 (False)');
+  }
+
+  return { options: [...TRUE_FALSE_OPTIONS], answerIndex: nextAnswerIndex, repaired };
+}
+
+/**
+ * Collapses duplicate and empty options, then drops surplus distractors from the end until
+ * exactly MCQ_OPTION_COUNT remain. Correct indices are remapped to the surviving slots.
+ */
+function normalizeOptionSet(options: string[], correctIndices: number[], errors: string[]) {
+  const kept: string[] = [];
+  const keptIndexByKey = new Map<string, number>();
+  const remapped = new Map<number, number>();
+
+  options.forEach((option, index) => {
+    if (!option) return;
+    const key = option.toLowerCase();
+    const existing = keptIndexByKey.get(key);
+    if (existing !== undefined) {
+      remapped.set(index, existing);
+      return;
+    }
+    keptIndexByKey.set(key, kept.length);
+    remapped.set(index, kept.length);
+    kept.push(option);
+  });
+
+  let correct = Array.from(
+    new Set(correctIndices.map((index) => remapped.get(index)).filter((index): index is number => index !== undefined))
+  );
+
+  if (correct.length !== correctIndices.length) {
+    errors.push('Correct option is empty or duplicated');
+    return null;
+  }
+
+  while (kept.length > MCQ_OPTION_COUNT) {
+    let surplusIndex = kept.length - 1;
+    while (surplusIndex >= 0 && correct.includes(surplusIndex)) surplusIndex -= 1;
+    if (surplusIndex < 0) break;
+    kept.splice(surplusIndex, 1);
+    correct = correct.map((index) => (index > surplusIndex ? index - 1 : index));
+  }
+
+  if (kept.length !== MCQ_OPTION_COUNT) {
+    errors.push(`Options must contain ${MCQ_OPTION_COUNT} distinct, non-empty choices`);
+    return null;
+  }
+
+  const repaired =
+    options.length !== kept.length ||
+    kept.some((option, index) => option !== options[index]) ||
+    correct.some((index, position) => index !== correctIndices[position]);
+
+  return { options: kept, correct, repaired };
+}
+
+function checkMultipleChoice(options: string[], answerIndex: number, errors: string[]) {
+  if (!Number.isInteger(answerIndex) || answerIndex < 0 || answerIndex >= options.length) {
+    errors.push(`answerIndex must be between 0 and ${MCQ_OPTION_COUNT - 1}`);
+    return null;
+  }
+
+  const normalized = normalizeOptionSet(options, [answerIndex], errors);
+  return normalized && { options: normalized.options, answerIndex: normalized.correct[0], repaired: normalized.repaired };
+}
+
+function checkMultiSelect(options: string[], answerIndices: number[], errors: string[]) {
+  if (!answerIndices.length || answerIndices.some((index) => !Number.isInteger(index) || index < 0 || index >= options.length)) {
+    errors.push('answerIndices must list the indices of every correct option');
+    return null;
+  }
+
+  const normalized = normalizeOptionSet(options, Array.from(new Set(answerIndices)), errors);
+  if (!normalized) return null;
+
+  if (normalized.correct.length > MULTI_SELECT_MAX_CORRECT) {
+    errors.push(`Multi-select questions must have between 1 and ${MULTI_SELECT_MAX_CORRECT} correct options`);
+    return null;
+  }
+
+  return {
+    options: normalized.options,
+    answerIndices: [...normalized.correct].sort((a, b) => a - b),
+    repaired: normalized.repaired || normalized.correct.length !== answerIndices.length
+  };
+}
+
+function checkFreeResponse(record: Record<string, unknown>, question: string, questionType: QuestionType, errors: string[]) {
+  const answer = asTrimmedString(record.answer ?? record.correctAnswer);
+  if (!answer) {
+    errors.push('Missing answer');
+    return null;
+  }
+
+  if (answer.split(/\s+/).length > FREE_RESPONSE_MAX_WORDS) {
+    errors.push(`Answer must be at most ${FREE_RESPONSE_MAX_WORDS} words`);
+  }
+
+  let nextQuestion = question;
+  let repaired = false;
+  if (questionType === 'fill-in-the-blank' && !BLANK_PATTERN.test(question)) {
+    // Accept "[blank]" / "{blank}" placeholders but normalize them to underscores for the player UI.
+    const withBlank = question.replace(/[[{(]\s*blank\s*[\]})]/i, '_____');
+    if (withBlank === question) {
+      errors.push('Fill-in-the-blank question must contain a blank (_____)');
+    } else {
+      nextQuestion = withBlank;
+      repaired = true;
+    }
+  }
+
+  const normalizedAnswer = normalizeAnswerText(answer);
+  if (normalizedAnswer && ` ${normalizeAnswerText(nextQuestion)} `.includes(` ${normalizedAnswer} `)) {
+    errors.push('Question text gives away the answer');
+  }
+
+  const variants = Array.isArray(record.acceptedAnswers) ? record.acceptedAnswers.map(asTrimmedString) : [];
+  const seen = new Set([normalizedAnswer]);
+  const acceptedAnswers = variants.filter((variant) => {
+    const key = normalizeAnswerText(variant);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return {
+    question: nextQuestion,
+    answer,
+    acceptedAnswers,
+    repaired: repaired || acceptedAnswers.length !== variants.length
+  };
+}
+
+function hasDistinctValues(values: string[]) {
+  return new Set(values.map((value) => value.toLowerCase())).size === values.length;
+}
+
+function checkSequenceLength(length: number, label: string, errors: string[]) {
+  if (length < SEQUENCE_MIN_ITEMS || length > SEQUENCE_MAX_ITEMS) {
+    errors.push(`${label} must contain between ${SEQUENCE_MIN_ITEMS} and ${SEQUENCE_MAX_ITEMS} entries`);
+  }
+}
+
+function checkMatching(record: Record<string, unknown>, errors: string[]) {
+  if (!Array.isArray(record.pairs)) {
+    errors.push('Pairs must be an array');
+    return null;
+  }
+
+  let repaired = false;
+  const pairs = record.pairs.map((pair) => {
+    const entry = pair && typeof pair === 'object' ? (pair as Record<string, unknown>) : {};
+    if (entry.term === undefined && entry.left !== undefined) repaired = true;
+    return {
+      term: asTrimmedString(entry.term ?? entry.left),
+      definition: asTrimmedString(entry.definition ?? entry.right)
+    };
+  });
+
+  checkSequenceLength(pairs.length, 'Pairs', errors);
+  if (pairs.some((pair) => !pair.term || !pair.definition)) {
+    errors.push('Every pair needs a term and a definition');
+  } else if (!hasDistinctValues(pairs.map((pair) => pair.term)) || !hasDistinctValues(pairs.map((pair) => pair.definition))) {
+    errors.push('Terms and definitions must be distinct');
+  }
+
+  return { pairs, repaired };
+}
+
+function checkOrdering(record: Record<string, unknown>, errors: string[]) {
+  if (!Array.isArray(record.items)) {
+    errors.push('Items must be an array');
+    return null;
+  }
+
+  const rawItems = record.items.map(asTrimmedString);
+  const numbered = rawItems.length > 0 && rawItems.every((item) => SEQUENCE_PREFIX_PATTERN.test(item));
+  const items = numbered ? rawItems.map((item) => item.replace(SEQUENCE_PREFIX_PATTERN, '').trim()) : rawItems;
+
+  checkSequenceLength(items.length, 'Items', errors);
+  if (items.some((item) => !item)) {
+    errors.push('Items must be non-empty');
+  } else if (!hasDistinctValues(items)) {
+    errors.push('Items must be distinct');
+  }
+
+  return { items, repaired: numbered };
+}
+
+function readNumber(value: unknown) {
+  if (typeof value === 'number') return value;
+  return typeof value === 'string' ? parseNumericAnswer(value) : null;
+}
+
+function checkNumeric(record: Record<string, unknown>, errors: string[]) {
+  const unit = asTrimmedString(record.unit);
+  const rawAnswer = record.answer ?? record.value;
+  let repaired = typeof rawAnswer !== 'number';
+  // Models sometimes write the unit into the answer ("9.8 m/s^2").
+  const answer = typeof rawAnswer === 'string' ? parseNumericAnswer(rawAnswer, unit || undefined) : readNumber(rawAnswer);
+  if (answer === null || !Number.isFinite(answer)) {
+    errors.push('Answer must be a number');
+    return null;
+  }
+
+  const absoluteTolerance = readNumber(record.absoluteTolerance ?? record.tolerance);
+  let relativeTolerance = readNumber(record.relativeTolerance);
+  if (
+    (absoluteTolerance !== null && !(absoluteTolerance >= 0)) ||
+    (relativeTolerance !== null && !(relativeTolerance >= 0))
+  ) {
+    errors.push('Tolerances must be non-negative numbers');
+    return null;
+  }
+
+  // A percentage such as 5 almost certainly means 5%, not 500%.
+  if (relativeTolerance !== null && relativeTolerance > 1 && relativeTolerance <= 100) {
+    relativeTolerance /= 100;
+    repaired = true;
+  }
+
+  if (relativeTolerance !== null && relativeTolerance > MAX_RELATIVE_TOLERANCE) {
+    errors.push(`relativeTolerance must be at most ${MAX_RELATIVE_TOLERANCE}`);
+    return null;
+  }
+
+  // Otherwise a tolerance such as 1e9 would mark every number correct.
+  const maxAbsoluteTolerance = Math.max(MAX_RELATIVE_TOLERANCE * Math.abs(answer), MIN_ABSOLUTE_TOLERANCE_CAP);
+  if (absoluteTolerance !== null && absoluteTolerance > maxAbsoluteTolerance) {
+    errors.push(`absoluteTolerance must be at most ${Number(maxAbsoluteTolerance.toPrecision(3))} for this answer`);
+    return null;
+  }
+
+  if (absoluteTolerance === null && relativeTolerance === null) {
+    relativeTolerance = DEFAULT_RELATIVE_TOLERANCE;
+    repaired = true;
+  }
+
+  return {
+    answer,
+    absoluteTolerance: absoluteTolerance ?? 0,
+    relativeTolerance: relativeTolerance ?? 0,
+    unit: unit || undefined,
+    repaired
+  };
+}
+
+export function validateQuestion(raw: unknown, questionType: QuestionType): QuestionCheck {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { question: null, repaired: false, errors: ['Question is not an object'] };
+  }
+
+  const record = raw as Record<string, unknown>;
+  const errors: string[] = [];
+  let repaired = false;
+
+  const question = asTrimmedString(record.question);
+  if (!question) {
+    errors.push('Missing question text');
+  }
+
+  const explanation = asTrimmedString(record.explanation);
+  if (!explanation) {
+    errors.push('Missing explanation');
+  }
+
+  if (questionType === 'fill-in-the-blank' || questionType === 'short-answer') {
+    const checked = checkFreeResponse(record, question, questionType, errors);
+    if (!checked || errors.length) {
+      return { question: null, repaired: false, errors };
+    }
+
+    return {
+      question: {
+        type: questionType,
+        question: checked.question,
+        answer: checked.answer,
+        acceptedAnswers: checked.acceptedAnswers,
+        explanation
+      },
+      repaired: checked.repaired,
+      errors
+    };
+  }
+
+  if (questionType === 'matching') {
+    const checked = checkMatching(record, errors);
+    if (!checked || errors.length) {
+      return { question: null, repaired: false, errors };
+    }
+    return { question: { type: questionType, question, pairs: checked.pairs, explanation }, repaired: checked.repaired, errors };
+  }
+
+  if (questionType === 'ordering') {
+    const checked = checkOrdering(record, errors);
+    if (!checked || errors.length) {
+      return { question: null, repaired: false, errors };
+    }
+    return { question: { type: questionType, question, items: checked.items, explanation }, repaired: checked.repaired, errors };
+  }
+
+  if (questionType === 'numeric') {
+    const checked = checkNumeric(record, errors);
+    if (!checked || errors.length) {
+      return { question: null, repaired: false, errors };
+    }
+
+    const { repaired: numericRepaired, ...numeric } = checked;
+    return { question: { type: questionType, question, ...numeric, explanation }, repaired: numericRepaired, errors };
+  }
+
+  const sourceOptions = record.options;
+  if (!Array.isArray(sourceOptions)) {
+    errors.push('Options must be an array');
+    return { question: null, repaired: false, errors };
+  }
+
+  const rawOptions = sourceOptions.map(asTrimmedString);
+  repaired = rawOptions.some((option, index) => option !== sourceOptions[index]);
+  const options = stripOptionPrefixes(rawOptions);
+  repaired = repaired || options !== rawOptions;
+
+  if (questionType === 'multi-select') {
+    const answers = resolveAnswerIndices(record, options);
+    const checked = checkMultiSelect(options, answers.values, errors);
+    if (!checked || errors.length) {
+      return { question: null, repaired: false, errors };
+    }
+
+    return {
+      question: { type: questionType, question, options: checked.options, answerIndices: checked.answerIndices, explanation },
+      repaired: repaired || answers.repaired || checked.repaired,
+      errors
+    };
+  }
+
+  const answer = resolveAnswerIndex(record, options);
+  const checked =
+    questionType === 'true-false'
+      ? checkTrueFalse(options, answer.value, errors)
+      : checkMultipleChoice(options, answer.value, errors);
+
+  if (!checked || errors.length) {
+    return { question: null, repaired: false, errors };
+  }
+
+  return {
+    question: { type: questionType, question, options: checked.options, answerIndex: checked.answerIndex, explanation },
+    repaired: repaired || answer.repaired || checked.repaired,
+    errors
+  };
+}
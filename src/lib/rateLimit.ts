@@ -1,95 +1,169 @@
 import { createHash } from 'crypto';
-import { doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
-import { db } from './firebase';
+import { QUIZ_GENERATION_COST } from './creditCosts';
+import { getRateLimitAlgorithm, type RateLimitAlgorithm } from './rateLimitAlgorithms';
+import { getRateLimitStore, type RateLimitStore } from './rateLimitStore';
+
+export type PlanTier = 'guest' | 'free' | 'teacher' | 'unlimited';
+
+/** Who a request is charged to: the signed-in account, or the IP address for guests. */
+export type RateLimitIdentity = {
+  docId: string;
+  tier: PlanTier;
+  /** Null for the unlimited tier. */
+  dailyLimit: number | null;
+  /** The shared allowance of free accounts signed in from the same IP address, charged alongside `docId`. */
+  ipCeiling?: { docId: string; dailyLimit: number };
+};
 
-interface RateLimitData {
-  dailyCount: number;
-  lastDailyReset: string; // ISO date string (YYYY-MM-DD, UTC)
-}
+export type RateLimitStatus = {
+  tier: PlanTier;
+  daily: number | null;
+  dailyLimit: number | null;
+};
+
+export type RateLimitResult = { allowed: boolean; reason?: string; remaining?: RateLimitStatus };
 
-type RateLimitStatus = {
-  daily: number;
-  dailyLimit: number;
+export type RateLimiterOptions = {
+  store: RateLimitStore;
+  algorithm: RateLimitAlgorithm;
+  now?: () => Date;
 };
 
-const DAILY_LIMIT = 5;
+export const PLAN_TIERS: PlanTier[] = ['guest', 'free', 'teacher', 'unlimited'];
 
-function getTodayUTC() {
-  return new Date().toISOString().split('T')[0];
-}
+const DEFAULT_DAILY_LIMITS: Record<Exclude<PlanTier, 'unlimited'>, number> = {
+  guest: 5,
+  free: 10,
+  teacher: 50
+};
+// Enough for a classroom of free accounts behind one school NAT, not for an endless supply of sign-ups.
+const DEFAULT_DAILY_LIMIT_PER_IP = 100;
 
-function toRateLimitDocId(ipAddress: string) {
+function toRateLimitDocId(ipAddress: string, prefix = 'ip') {
   const hash = createHash('sha256').update(ipAddress).digest('hex');
-  return `ip_${hash}`;
+  return `${prefix}_${hash}`;
 }
 
-export async function checkRateLimit(ipAddress: string): Promise<{ allowed: boolean; reason?: string; remaining?: RateLimitStatus }> {
-  const today = getTodayUTC();
-  const rateLimitRef = doc(db, 'rateLimits', toRateLimitDocId(ipAddress));
-  const rateLimitDoc = await getDoc(rateLimitRef);
-
-  if (!rateLimitDoc.exists()) {
-    await setDoc(rateLimitRef, {
-      dailyCount: 1,
-      lastDailyReset: today
-    });
-
-    return {
-      allowed: true,
-      remaining: {
-        daily: DAILY_LIMIT - 1,
-        dailyLimit: DAILY_LIMIT
-      }
-    };
-  }
-
-  const data = rateLimitDoc.data() as Partial<RateLimitData>;
-  let dailyCount = typeof data.dailyCount === 'number' ? data.dailyCount : 0;
-  let lastDailyReset = typeof data.lastDailyReset === 'string' ? data.lastDailyReset : today;
-
-  if (lastDailyReset !== today) {
-    dailyCount = 0;
-    lastDailyReset = today;
-  }
-
-  if (dailyCount >= DAILY_LIMIT) {
-    return {
-      allowed: false,
-      reason: `Daily limit of ${DAILY_LIMIT} quiz generations per IP address exceeded. Resets at midnight UTC.`
-    };
-  }
-
-  await updateDoc(rateLimitRef, {
-    dailyCount: dailyCount + 1,
-    lastDailyReset
-  });
+/** Daily credits for `tier`, overridable with DAILY_LIMIT_GUEST, DAILY_LIMIT_FREE and DAILY_LIMIT_TEACHER. */
+export function getTierDailyLimit(tier: PlanTier) {
+  if (tier === 'unlimited') return null;
+
+  const configured = Number(process.env[`DAILY_LIMIT_${tier.toUpperCase()}`]);
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_DAILY_LIMITS[tier];
+}
+
+/** Daily credits shared by all free accounts using one IP address, overridable with DAILY_LIMIT_PER_IP. */
+export function getIpDailyLimit() {
+  const configured = Number(process.env.DAILY_LIMIT_PER_IP);
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_DAILY_LIMIT_PER_IP;
+}
+
+export function createRateLimiter({ store, algorithm, now = () => new Date() }: RateLimiterOptions) {
+  const getLimitMessage = ({ tier, dailyLimit }: RateLimitIdentity) =>
+    tier === 'guest'
+      ? `Daily limit of ${dailyLimit} credits per IP address exceeded. Sign in for a larger allowance. ${algorithm.resetHint}`
+      : `Your ${tier} plan's daily limit of ${dailyLimit} credits is used up. ${algorithm.resetHint}`;
+  const getIpCeilingMessage = (ipDailyLimit: number) =>
+    `Free accounts on this network have used their shared daily limit of ${ipDailyLimit} credits. ${algorithm.resetHint}`;
+
+  // Every allowance a request draws on: the caller's own, then any shared per-IP ceiling.
+  const getAllowances = (identity: RateLimitIdentity, dailyLimit: number) => [
+    { docId: identity.docId, dailyLimit, reason: getLimitMessage(identity) },
+    ...(identity.ipCeiling
+      ? [{ ...identity.ipCeiling, reason: getIpCeilingMessage(identity.ipCeiling.dailyLimit) }]
+      : [])
+  ];
 
   return {
-    allowed: true,
-    remaining: {
-      daily: DAILY_LIMIT - (dailyCount + 1),
-      dailyLimit: DAILY_LIMIT
+    /**
+     * Signed-in users are charged to their account, so a classroom behind one school NAT no longer shares
+     * a single allowance. Their tier is whatever an admin stored for them; otherwise they are on free.
+     * Free accounts are also charged to a ceiling shared by their IP address, so signing up for more
+     * accounts does not buy more credits; tiers an admin assigned are exempt.
+     */
+    async getIdentity(ipAddress: string | null, uid?: string | null): Promise<RateLimitIdentity> {
+      if (uid) {
+        const storedTier = (await store.getAccountTier(uid)) as PlanTier | undefined;
+        const tier: PlanTier = storedTier && PLAN_TIERS.includes(storedTier) && storedTier !== 'guest' ? storedTier : 'free';
+        const identity: RateLimitIdentity = { docId: `user_${uid}`, tier, dailyLimit: getTierDailyLimit(tier) };
+        if (tier === 'free' && ipAddress) {
+          identity.ipCeiling = { docId: toRateLimitDocId(ipAddress, 'accounts_ip'), dailyLimit: getIpDailyLimit() };
+        }
+        return identity;
+      }
+
+      if (!ipAddress) {
+        throw new Error('A client IP is required to rate limit guests');
+      }
+      return { docId: toRateLimitDocId(ipAddress), tier: 'guest', dailyLimit: getTierDailyLimit('guest') };
+    },
+
+    /**
+     * Checks and charges `cost` credits to every allowance in one atomic store update, so parallel
+     * requests cannot overspend; nothing is charged when any allowance is refused.
+     */
+    async check(identity: RateLimitIdentity, cost = QUIZ_GENERATION_COST): Promise<RateLimitResult> {
+      const { dailyLimit, tier } = identity;
+      if (dailyLimit === null) {
+        return { allowed: true, remaining: { tier, daily: null, dailyLimit: null } };
+      }
+
+      const allowances = getAllowances(identity, dailyLimit);
+      return store.updateAll<RateLimitResult>(
+        allowances.map((allowance) => allowance.docId),
+        (states) => {
+          const at = now();
+          const decisions = allowances.map((allowance, index) =>
+            algorithm.consume(states[index], allowance.dailyLimit, cost, at)
+          );
+          const refused = decisions.findIndex((decision) => !decision.allowed);
+          if (refused !== -1) {
+            return { result: { allowed: false, reason: allowances[refused].reason } };
+          }
+
+          const daily = Math.min(...decisions.map((decision) => decision.remaining));
+          return {
+            states: decisions.map((decision) => decision.state),
+            result: { allowed: true, remaining: { tier, daily, dailyLimit } }
+          };
+        }
+      );
+    },
+
+    async getStatus(identity: RateLimitIdentity): Promise<RateLimitStatus> {
+      const { dailyLimit, tier } = identity;
+      if (dailyLimit === null) {
+        return { tier, daily: null, dailyLimit: null };
+      }
+
+      const remaining = await Promise.all(
+        getAllowances(identity, dailyLimit).map(async (allowance) =>
+          algorithm.remaining(await store.get(allowance.docId), allowance.dailyLimit, now())
+        )
+      );
+      return { tier, daily: Math.min(...remaining), dailyLimit };
     }
   };
 }
 
-export async function getRateLimitStatus(ipAddress: string): Promise<RateLimitStatus> {
-  const today = getTodayUTC();
-  const rateLimitRef = doc(db, 'rateLimits', toRateLimitDocId(ipAddress));
-  const rateLimitDoc = await getDoc(rateLimitRef);
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
 
-  if (!rateLimitDoc.exists()) {
-    return {
-      daily: DAILY_LIMIT,
-      dailyLimit: DAILY_LIMIT
-    };
-  }
+let sharedLimiter: RateLimiter | undefined;
 
-  const data = rateLimitDoc.data() as Partial<RateLimitData>;
-  const dailyCount = data.lastDailyReset === today && typeof data.dailyCount === 'number' ? data.dailyCount : 0;
+/** The limiter used by the API routes, configured by RATE_LIMIT_STORE and RATE_LIMIT_ALGORITHM. */
+export function getRateLimiter() {
+  sharedLimiter ??= createRateLimiter({ store: getRateLimitStore(), algorithm: getRateLimitAlgorithm() });
+  return sharedLimiter;
+}
 
-  return {
-    daily: Math.max(0, DAILY_LIMIT - dailyCount),
-    dailyLimit: DAILY_LIMIT
-  };
+export function getRateLimitIdentity(ipAddress: string | null, uid?: string | null) {
+  return getRateLimiter().getIdentity(ipAddress, uid);
+}
+
+export function checkRateLimit(identity: RateLimitIdentity, cost = QUIZ_GENERATION_COST) {
+  return getRateLimiter().check(identity, cost);
+}
+
+export function getRateLimitStatus(identity: RateLimitIdentity) {
+  return getRateLimiter().getStatus(identity);
 }
@@ -0,0 +1,151 @@
+import type { RateLimitState } from './rateLimitStore';
+
+export type RateLimitAlgorithmName = 'fixed-window' | 'sliding-window' | 'token-bucket';
+
+export type RateLimitDecision = {
+  allowed: boolean;
+  /** Credits left after this request, or before it when it was refused. */
+  remaining: number;
+  /** The state to store; absent when nothing changed. */
+  state?: RateLimitState;
+};
+
+export interface RateLimitAlgorithm {
+  name: RateLimitAlgorithmName;
+  /** Tells a refused caller when credits come back. */
+  resetHint: string;
+  consume(state: RateLimitState | undefined, limit: number, cost: number, now: Date): RateLimitDecision;
+  remaining(state: RateLimitState | undefined, limit: number, now: Date): number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fractional costs are kept to two decimals so repeated 0.25 charges never drift.
+export function roundCredits(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function readNumber(state: RateLimitState | undefined, field: string) {
+  const value = state?.[field];
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+/** Credits reset at midnight UTC; the original behaviour, storing `dailyCount` and `lastDailyReset`. */
+export function createFixedWindowAlgorithm(): RateLimitAlgorithm {
+  const getUsed = (state: RateLimitState | undefined, now: Date) => {
+    const today = now.toISOString().split('T')[0];
+    return state?.lastDailyReset === today ? readNumber(state, 'dailyCount') ?? 0 : 0;
+  };
+
+  return {
+    name: 'fixed-window',
+    resetHint: 'Resets at midnight UTC.',
+    consume(state, limit, cost, now) {
+      const used = getUsed(state, now);
+      if (roundCredits(used + cost) > limit) {
+        return { allowed: false, remaining: Math.max(0, roundCredits(limit - used)) };
+      }
+
+      const dailyCount = roundCredits(used + cost);
+      return {
+        allowed: true,
+        remaining: roundCredits(limit - dailyCount),
+        state: { dailyCount, lastDailyReset: now.toISOString().split('T')[0] }
+      };
+    },
+    remaining(state, limit, now) {
+      return Math.max(0, roundCredits(limit - getUsed(state, now)));
+    }
+  };
+}
+
+/**
+ * Approximates a rolling 24-hour window by weighting the previous day's spend by how much of it still
+ * overlaps the window, so a burst just before midnight cannot be repeated just after it.
+ */
+export function createSlidingWindowAlgorithm(): RateLimitAlgorithm {
+  const getWindow = (state: RateLimitState | undefined, now: Date) => {
+    const windowStart = Math.floor(now.getTime() / DAY_MS) * DAY_MS;
+    const storedStart = readNumber(state, 'windowStart');
+    const storedCount = readNumber(state, 'count') ?? 0;
+
+    const count = storedStart === windowStart ? storedCount : 0;
+    const previousCount =
+      storedStart === windowStart
+        ? readNumber(state, 'previousCount') ?? 0
+        : storedStart === windowStart - DAY_MS
+          ? storedCount
+          : 0;
+    const overlap = 1 - (now.getTime() - windowStart) / DAY_MS;
+    return { windowStart, count, previousCount, used: roundCredits(previousCount * overlap + count) };
+  };
+
+  return {
+    name: 'sliding-window',
+    resetHint: 'Credits free up as the last 24 hours roll over.',
+    consume(state, limit, cost, now) {
+      const { windowStart, count, previousCount, used } = getWindow(state, now);
+      if (roundCredits(used + cost) > limit) {
+        return { allowed: false, remaining: Math.max(0, roundCredits(limit - used)) };
+      }
+
+      return {
+        allowed: true,
+        remaining: Math.max(0, roundCredits(limit - used - cost)),
+        state: { windowStart, count: roundCredits(count + cost), previousCount }
+      };
+    },
+    remaining(state, limit, now) {
+      return Math.max(0, roundCredits(limit - getWindow(state, now).used));
+    }
+  };
+}
+
+/** A bucket holding up to a day's credits that refills continuously, so spending recovers gradually. */
+export function createTokenBucketAlgorithm(): RateLimitAlgorithm {
+  const getTokens = (state: RateLimitState | undefined, limit: number, now: Date) => {
+    const tokens = readNumber(state, 'tokens');
+    const refilledAt = readNumber(state, 'refilledAt');
+    if (tokens === undefined || refilledAt === undefined) return limit;
+
+    const refill = (Math.max(0, now.getTime() - refilledAt) / DAY_MS) * limit;
+    return Math.min(limit, tokens + refill);
+  };
+
+  return {
+    name: 'token-bucket',
+    resetHint: 'Credits refill gradually over the day.',
+    consume(state, limit, cost, now) {
+      const tokens = getTokens(state, limit, now);
+      if (roundCredits(tokens) < cost) {
+        return { allowed: false, remaining: Math.max(0, roundCredits(tokens)) };
+      }
+
+      return {
+        allowed: true,
+        remaining: Math.max(0, roundCredits(tokens - cost)),
+        // Unrounded, so small refills between requests are not lost.
+        state: { tokens: tokens - cost, refilledAt: now.getTime() }
+      };
+    },
+    remaining(state, limit, now) {
+      return Math.max(0, roundCredits(getTokens(state, limit, now)));
+    }
+  };
+}
+
+/** Chosen by RATE_LIMIT_ALGORITHM: fixed-window (default), sliding-window or token-bucket. */
+export function getRateLimitAlgorithm(): RateLimitAlgorithm {
+  const algorithmName = (process.env.RATE_LIMIT_ALGORITHM || 'fixed-window').trim().toLowerCase();
+
+  switch (algorithmName) {
+    case 'fixed-window':
+      return createFixedWindowAlgorithm();
+    case 'sliding-window':
+      return createSlidingWindowAlgorithm();
+    case 'token-bucket':
+      return createTokenBucketAlgorithm();
+    default:
+      throw new Error(`Unknown RATE_LIMIT_ALGORITHM "${algorithmName}"`);
+  }
+}
@@ -0,0 +1,89 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { AuthTokenError, getRequestUser } from './authToken';
+import { getClientIp } from './clientIp';
+import { QUIZ_GENERATION_COST } from './creditCosts';
+import { checkRateLimit, getRateLimitIdentity, type RateLimitIdentity } from './rateLimit';
+import { checkUsageCeilings } from './usageMetering';
+
+/**
+ * Works out who the request is charged to: the verified Firebase user when an ID token is sent,
+ * otherwise the client IP. Returns null after sending the error response when that fails.
+ */
+export async function resolveRateLimitIdentity(
+  req: NextApiRequest,
+  res: NextApiResponse
+): Promise<RateLimitIdentity | null> {
+  try {
+    const user = await getRequestUser(req);
+    const clientIp = getClientIp(req);
+    if (!user && !clientIp) {
+      res.status(400).json({ error: 'Unable to determine client IP for rate limiting' });
+      return null;
+    }
+    return await getRateLimitIdentity(clientIp, user?.uid);
+  } catch (error) {
+    if (error instanceof AuthTokenError) {
+      res.status(error.status).json({ error: error.message });
+      return null;
+    }
+    console.error('Rate limit identity error:', error);
+    res.status(500).json({ error: 'Rate limit check failed' });
+    return null;
+  }
+}
+
+/**
+ * Charges `cost` daily credits to the caller. Returns null after sending the error response when the
+ * request must stop; otherwise sets the rate-limit headers and returns who was charged, for usage metering.
+ */
+export async function chargeRateLimit(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  cost = QUIZ_GENERATION_COST
+): Promise<RateLimitIdentity | null> {
+  const identity = await resolveRateLimitIdentity(req, res);
+  if (!identity) return null;
+
+  // Waiting for tomorrow's credits would not help, so this is not reported as a used-up quota.
+  if (identity.dailyLimit !== null && cost > identity.dailyLimit) {
+    res.status(413).json({
+      error: `This request costs ${cost} credits, more than your ${identity.tier} plan's daily limit of ${identity.dailyLimit}. It is too large for your plan; try fewer questions or a shorter study guide.`,
+      tooLargeForPlan: true
+    });
+    return null;
+  }
+
+  try {
+    const ceilingReason = await checkUsageCeilings(identity);
+    if (ceilingReason) {
+      res.status(429).json({
+        error: ceilingReason,
+        usageCeilingExceeded: true
+      });
+      return null;
+    }
+
+    const rateLimitResult = await checkRateLimit(identity, cost);
+
+    if (!rateLimitResult.allowed) {
+      res.status(429).json({
+        error: rateLimitResult.reason,
+        rateLimitExceeded: true
+      });
+      return null;
+    }
+
+    // Add rate limit info to response headers
+    res.setHeader('X-RateLimit-Tier', identity.tier);
+    if (identity.dailyLimit !== null) {
+      res.setHeader('X-RateLimit-Remaining-Daily', rateLimitResult.remaining?.daily?.toString() || '0');
+      res.setHeader('X-RateLimit-Limit-Daily', identity.dailyLimit.toString());
+    }
+  } catch (error) {
+    console.error('Rate limit check error:', error);
+    res.status(500).json({ error: 'Rate limit check failed' });
+    return null;
+  }
+
+  return identity;
+}
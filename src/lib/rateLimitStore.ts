@@ -0,0 +1,229 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+
+/** Per-caller counters; the fields depend on the rate-limit algorithm, so stores treat them as opaque. */
+export type RateLimitState = Record<string, number | string>;
+
+export type RateLimitUpdate<T> = (state: RateLimitState | undefined) => { state?: RateLimitState; result: T };
+
+/** Like RateLimitUpdate for several keys; a missing entry in `states` leaves that key unchanged. */
+export type RateLimitMultiUpdate<T> = (states: (RateLimitState | undefined)[]) => {
+  states?: (RateLimitState | undefined)[];
+  result: T;
+};
+
+/** A blocked request, kept for admins to review. */
+export type ModerationLogEntry = {
+  stage: 'input' | 'output';
+  categories: string[];
+  classifier: string;
+  excerpt: string;
+  ipHash: string | null;
+};
+
+export interface RateLimitStore {
+  name: string;
+  get(key: string): Promise<RateLimitState | undefined>;
+  /**
+   * Reads and replaces `key`'s state atomically, so concurrent requests from one caller cannot both spend
+   * the same credits. `apply` may run more than once and leaves the state unchanged when it returns none.
+   */
+  update<T>(key: string, apply: RateLimitUpdate<T>): Promise<T>;
+  /** Reads and replaces several keys' states in one atomic step, e.g. an account's and its IP address's. */
+  updateAll<T>(keys: string[], apply: RateLimitMultiUpdate<T>): Promise<T>;
+  /** The plan tier an admin assigned to an account, if any. */
+  getAccountTier(uid: string): Promise<string | undefined>;
+  /** Appends a blocked-content report; the store adds when it was made. */
+  addModerationLogEntry(entry: ModerationLogEntry): Promise<void>;
+}
+
+type StoredModerationLogEntry = ModerationLogEntry & { createdAt: string };
+
+type RateLimitFile = {
+  rateLimits: Record<string, RateLimitState>;
+  accountPlans: Record<string, { tier?: string }>;
+  moderationLog: StoredModerationLogEntry[];
+};
+
+const DEFAULT_RATE_LIMIT_FILE = '.rate-limits.json';
+// The memory and file stores keep only the most recent reports; Firestore keeps every one.
+const MAX_MODERATION_LOG_ENTRIES = 1000;
+
+// Loaded on first use so the memory and file stores work without any Firebase configuration.
+const getDb = async () => (await import('./firebaseAdmin')).adminDb;
+
+// Single-key updates are the multi-key update of one key.
+function toMultiUpdate<T>(apply: RateLimitUpdate<T>): RateLimitMultiUpdate<T> {
+  return ([state]) => {
+    const { state: next, result } = apply(state);
+    return { states: [next], result };
+  };
+}
+
+/**
+ * Stores counters and usage totals in the `rateLimits` collection, reads tiers from `accountPlans` and
+ * appends reports to `moderationLog`, through the Admin SDK. firestore.rules denies clients both collections, so nobody can reset their
+ * counters or grant themselves a tier.
+ */
+export function createFirestoreRateLimitStore(): RateLimitStore {
+  const updateAll: RateLimitStore['updateAll'] = async (keys, apply) => {
+    const db = await getDb();
+    const refs = keys.map((key) => db.collection('rateLimits').doc(key));
+    // Firestore retries the transaction when another request changed one of the documents in the meantime.
+    return db.runTransaction(async (transaction) => {
+      const snapshots = await transaction.getAll(...refs);
+      const { states, result } = apply(
+        snapshots.map((snapshot) => (snapshot.exists ? (snapshot.data() as RateLimitState) : undefined))
+      );
+      states?.forEach((state, index) => {
+        if (state) transaction.set(refs[index], state);
+      });
+      return result;
+    });
+  };
+
+  return {
+    name: 'firestore',
+    async get(key) {
+      const snapshot = await (await getDb()).collection('rateLimits').doc(key).get();
+      return snapshot.exists ? (snapshot.data() as RateLimitState) : undefined;
+    },
+    update: (key, apply) => updateAll([key], toMultiUpdate(apply)),
+    updateAll,
+    async getAccountTier(uid) {
+      const snapshot = await (await getDb()).collection('accountPlans').doc(uid).get();
+      return snapshot.data()?.tier;
+    },
+    async addModerationLogEntry(entry) {
+      const { FieldValue } = await import('firebase-admin/firestore');
+      await (await getDb()).collection('moderationLog').add({ ...entry, createdAt: FieldValue.serverTimestamp() });
+    }
+  };
+}
+
+/** Process-local counters for development and tests; `accountTiers` maps uids to plan tiers. */
+export function createMemoryRateLimitStore(accountTiers: Record<string, string> = {}): RateLimitStore {
+  const states = new Map<string, RateLimitState>();
+  const moderationLog: StoredModerationLogEntry[] = [];
+
+  const updateAll: RateLimitStore['updateAll'] = async (keys, apply) => {
+    // No await between the read and the write, so updates to the same keys never interleave.
+    const { states: next, result } = apply(keys.map((key) => states.get(key)));
+    next?.forEach((state, index) => {
+      if (state) states.set(keys[index], state);
+    });
+    return result;
+  };
+
+  return {
+    name: 'memory',
+    async get(key) {
+      return states.get(key);
+    },
+    update: (key, apply) => updateAll([key], toMultiUpdate(apply)),
+    updateAll,
+    async getAccountTier(uid) {
+      return accountTiers[uid];
+    },
+    async addModerationLogEntry(entry) {
+      moderationLog.push({ ...entry, createdAt: new Date().toISOString() });
+      moderationLog.splice(0, moderationLog.length - MAX_MODERATION_LOG_ENTRIES);
+    }
+  };
+}
+
+/**
+ * Keeps counters, account plans and moderation reports in one JSON file, for single-server deployments without Firestore.
+ * Writes are serialized within the process and replace the file atomically; do not share the file
+ * between processes.
+ */
+export function createFileRateLimitStore(filePath: string): RateLimitStore {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const serialize = <T>(task: () => Promise<T>) => {
+    const run = queue.then(task, task);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  const load = async (): Promise<RateLimitFile> => {
+    try {
+      const data = JSON.parse(await readFile(filePath, 'utf8')) as Partial<RateLimitFile>;
+      return {
+        rateLimits: data.rateLimits ?? {},
+        accountPlans: data.accountPlans ?? {},
+        moderationLog: data.moderationLog ?? []
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { rateLimits: {}, accountPlans: {}, moderationLog: [] };
+      throw error;
+    }
+  };
+
+  const save = async (data: RateLimitFile) => {
+    await mkdir(dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(data, null, 2));
+    await rename(tempPath, filePath);
+  };
+
+  const updateAll: RateLimitStore['updateAll'] = (keys, apply) =>
+    serialize(async () => {
+      const data = await load();
+      const { states, result } = apply(keys.map((key) => data.rateLimits[key]));
+      if (states?.some(Boolean)) {
+        states.forEach((state, index) => {
+          if (state) data.rateLimits[keys[index]] = state;
+        });
+        await save(data);
+      }
+      return result;
+    });
+
+  return {
+    name: 'file',
+    get(key) {
+      return serialize(async () => (await load()).rateLimits[key]);
+    },
+    update: (key, apply) => updateAll([key], toMultiUpdate(apply)),
+    updateAll,
+    getAccountTier(uid) {
+      return serialize(async () => (await load()).accountPlans[uid]?.tier);
+    },
+    addModerationLogEntry(entry) {
+      return serialize(async () => {
+        const data = await load();
+        data.moderationLog = [...data.moderationLog, { ...entry, createdAt: new Date().toISOString() }].slice(
+          -MAX_MODERATION_LOG_ENTRIES
+        );
+        await save(data);
+      });
+    }
+  };
+}
+
+let sharedStore: RateLimitStore | undefined;
+
+/**
+ * The store shared by rate limiting, usage metering and moderation logging, chosen by RATE_LIMIT_STORE: firestore (default),
+ * memory, or file at RATE_LIMIT_FILE.
+ */
+export function getRateLimitStore(): RateLimitStore {
+  sharedStore ??= createConfiguredStore();
+  return sharedStore;
+}
+
+function createConfiguredStore(): RateLimitStore {
+  const storeName = (process.env.RATE_LIMIT_STORE || 'firestore').trim().toLowerCase();
+
+  switch (storeName) {
+    case 'firestore':
+      return createFirestoreRateLimitStore();
+    case 'memory':
+      return createMemoryRateLimitStore();
+    case 'file':
+      return createFileRateLimitStore(process.env.RATE_LIMIT_FILE?.trim() || DEFAULT_RATE_LIMIT_FILE);
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE "${storeName}"`);
+  }
+}
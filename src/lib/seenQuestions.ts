@@ -0,0 +1,36 @@
+import { collection, getDocs, limit, orderBy, query } from 'firebase/firestore';
+import { db } from './firebase';
+import { MAX_EXCLUDED_QUESTIONS } from './questionSimilarity';
+
+const HISTORY_LOOKBACK = 50;
+
+function normalizeTopic(topic: string) {
+  return topic.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Collects the questions a signed-in user has already been asked on `topic`, newest first,
+ * from their saved quiz history. Study guides match when the saved text is identical.
+ */
+export async function getSeenQuestions(uid: string, topic: string) {
+  const target = normalizeTopic(topic);
+  const historyQuery = query(
+    collection(db, 'users', uid, 'quizHistory'),
+    orderBy('createdAt', 'desc'),
+    limit(HISTORY_LOOKBACK)
+  );
+  const snapshot = await getDocs(historyQuery);
+
+  const seen: string[] = [];
+  snapshot.docs.forEach((entry) => {
+    const data = entry.data() as { topic?: unknown; questions?: unknown };
+    if (typeof data.topic !== 'string' || normalizeTopic(data.topic) !== target || !Array.isArray(data.questions)) {
+      return;
+    }
+    data.questions.forEach((question) => {
+      if (typeof question === 'string') seen.push(question);
+    });
+  });
+
+  return seen.slice(0, MAX_EXCLUDED_QUESTIONS);
+}
@@ -0,0 +1,97 @@
+import type { SourceCitation } from '@/types/quiz';
+
+/** Marker the dashboard writes at the start of every extracted PDF page, e.g. "[Page 12]". */
+const PAGE_MARKER_PATTERN = /\[Page (\d+)\]/gi;
+const MIN_QUOTE_WORDS = 4;
+const MAX_QUOTE_CHARS = 400;
+
+export type SourceVerifier = {
+  /** Returns the citation when the quoted text really appears in the study guide, otherwise null. */
+  verify(raw: unknown): SourceCitation | null;
+};
+
+export function formatPageMarker(page: number) {
+  return `[Page ${page}]`;
+}
+
+function isWordChar(char: string) {
+  return /[\p{L}\p{N}]/u.test(char);
+}
+
+/**
+ * Reduces text to lowercase words separated by single spaces, remembering where each kept
+ * character came from so a match can be traced back to the original text.
+ */
+function normalizeWithOffsets(text: string) {
+  let normalized = '';
+  const offsets: number[] = [];
+  let pendingSpace = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (isWordChar(char)) {
+      if (pendingSpace && normalized) {
+        normalized += ' ';
+        offsets.push(index);
+      }
+      normalized += char.toLowerCase();
+      offsets.push(index);
+      pendingSpace = false;
+    } else {
+      pendingSpace = true;
+    }
+  }
+
+  return { normalized, offsets };
+}
+
+function readQuote(raw: unknown) {
+  if (typeof raw === 'string') return raw.trim();
+  if (raw && typeof raw === 'object') {
+    const { quote, text } = raw as Record<string, unknown>;
+    const value = quote ?? text;
+    return typeof value === 'string' ? value.trim() : '';
+  }
+  return '';
+}
+
+/**
+ * Builds a verifier for one study guide. Quotes are matched after normalizing case, punctuation
+ * and whitespace (PDF extraction mangles all three); page numbers come from the page markers.
+ */
+export function createSourceVerifier(studyGuide: string): SourceVerifier {
+  // Blank out the markers so a quote spanning a page break still matches.
+  const withoutMarkers = studyGuide.replace(PAGE_MARKER_PATTERN, (marker) => ' '.repeat(marker.length));
+  const { normalized, offsets } = normalizeWithOffsets(withoutMarkers);
+  const pageStarts = Array.from(studyGuide.matchAll(PAGE_MARKER_PATTERN)).map((match) => ({
+    offset: match.index ?? 0,
+    page: Number(match[1])
+  }));
+
+  const getPageAt = (offset: number) => {
+    let page: number | undefined;
+    for (const start of pageStarts) {
+      if (start.offset > offset) break;
+      page = start.page;
+    }
+    return page;
+  };
+
+  return {
+    verify(raw) {
+      const quote = readQuote(raw).replace(PAGE_MARKER_PATTERN, ' ').slice(0, MAX_QUOTE_CHARS);
+      const needle = normalizeWithOffsets(quote).normalized;
+      if (!needle || needle.split(' ').length < MIN_QUOTE_WORDS) return null;
+
+      const position = normalized.indexOf(needle);
+      if (position === -1) return null;
+
+      const start = offsets[position];
+      const end = offsets[position + needle.length - 1] + 1;
+      const citation: SourceCitation = { quote: withoutMarkers.slice(start, end).replace(/\s+/g, ' ') };
+      const page = getPageAt(start);
+      if (page !== undefined) citation.page = page;
+      return citation;
+    }
+  };
+}
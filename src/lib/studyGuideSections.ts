@@ -0,0 +1,87 @@
+export type StudyGuideSection = {
+  index: number;
+  title: string;
+  content: string;
+};
+
+/** Roughly 3k tokens: small enough to leave the model room to answer, large enough to hold a few PDF pages. */
+export const SECTION_MAX_CHARS = 12000;
+const SECTION_TITLE_MAX_CHARS = 60;
+
+// PDF page markers ("[Page 3]") make poor titles, so the first line of real text is used.
+const PAGE_MARKER_LINE_PATTERN = /^\s*\[Page \d+\]\s*$/i;
+
+function getSectionTitle(content: string) {
+  const firstLine =
+    content
+      .split('\n')
+      .find((line) => line.trim() && !PAGE_MARKER_LINE_PATTERN.test(line))
+      ?.replace(/\s+/g, ' ')
+      .trim() ?? '';
+  return firstLine.length > SECTION_TITLE_MAX_CHARS ? `${firstLine.slice(0, SECTION_TITLE_MAX_CHARS - 1)}…` : firstLine;
+}
+
+function splitLongParagraph(paragraph: string, maxChars: number) {
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const sentence of paragraph.split(/(?<=[.!?])\s+/)) {
+    // A single run-on "sentence" (tables, extracted PDF noise) is cut at the limit.
+    for (let offset = 0; offset < sentence.length; offset += maxChars) {
+      const part = sentence.slice(offset, offset + maxChars);
+      if (current && current.length + part.length + 1 > maxChars) {
+        pieces.push(current);
+        current = '';
+      }
+      current = current ? `${current} ${part}` : part;
+    }
+  }
+
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Splits a study guide into sections of at most `maxChars`, breaking between paragraphs
+ * (PDF pages arrive as separate paragraphs) and only inside one when it is too long on its own.
+ * Deterministic, so the dashboard and `/api/quiz` agree on section numbers.
+ */
+export function splitStudyGuide(text: string, maxChars = SECTION_MAX_CHARS): StudyGuideSection[] {
+  const normalized = text.replace(/\r\n?/g, '\n').trim();
+  if (!normalized) return [];
+
+  const paragraphs = normalized
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .flatMap((paragraph) => (paragraph.length > maxChars ? splitLongParagraph(paragraph, maxChars) : [paragraph]));
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length + 2 > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) chunks.push(current);
+
+  return chunks.map((content, index) => ({ index, title: getSectionTitle(content), content }));
+}
+
+/**
+ * Narrows `sections` to the indices in `selection`. An absent selection keeps every section;
+ * anything other than a non-empty list of valid indices returns null.
+ */
+export function selectSections(sections: StudyGuideSection[], selection: unknown) {
+  if (selection === undefined) return sections;
+  if (
+    !Array.isArray(selection) ||
+    !selection.length ||
+    !selection.every((index) => Number.isInteger(index) && index >= 0 && index < sections.length)
+  ) {
+    return null;
+  }
+  return sections.filter((section) => selection.includes(section.index));
+}
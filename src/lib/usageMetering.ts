@@ -0,0 +1,190 @@
+import type { LlmProvider, TokenUsage } from './llmProvider';
+import type { RateLimitIdentity } from './rateLimit';
+import { getRateLimitStore, type RateLimitState, type RateLimitStore } from './rateLimitStore';
+
+export type UsageEndpoint = 'quiz' | 'replace-question' | 'explain';
+
+export type UsageDay = {
+  date: string;
+  requests: number;
+  credits: number;
+  promptTokens: number;
+  completionTokens: number;
+};
+
+type UsageCeilings = {
+  perCaller: number | null;
+  global: number | null;
+};
+
+// Rough tokens-per-character ratio, used only when a provider does not report usage.
+const CHARS_PER_TOKEN = 4;
+const GLOBAL_USAGE_ID = 'global';
+export const MAX_USAGE_HISTORY_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function getDateUTC(date = new Date()) {
+  return date.toISOString().split('T')[0];
+}
+
+function estimateTokens(chars: number) {
+  return Math.ceil(chars / CHARS_PER_TOKEN);
+}
+
+// Daily totals live in the rate-limit store next to the credit counters, so metering works with any backend.
+function getUsageKey(usageId: string, date: string) {
+  return `usage_${usageId}_${date}`;
+}
+
+function readTotal(state: RateLimitState | undefined, field: string) {
+  const value = state?.[field];
+  return typeof value === 'number' ? value : 0;
+}
+
+function toUsageDay(date: string, state: RateLimitState | undefined): UsageDay {
+  return {
+    date,
+    requests: readTotal(state, 'requests'),
+    credits: Math.round(readTotal(state, 'credits') * 100) / 100,
+    promptTokens: readTotal(state, 'promptTokens'),
+    completionTokens: readTotal(state, 'completionTokens')
+  };
+}
+
+/**
+ * Wraps `provider` to total the tokens of every call made through it. Reported usage is used when the
+ * provider sends it; otherwise, or when a stream is abandoned early, tokens are estimated from characters.
+ */
+export function meterProvider(provider: LlmProvider) {
+  const total: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+
+  const track = (messages: { content: string }[]) => {
+    let reported: TokenUsage | undefined;
+    return {
+      onUsage(usage: TokenUsage) {
+        reported = usage;
+      },
+      finish(outputChars: number) {
+        const usage = reported ?? {
+          promptTokens: estimateTokens(messages.reduce((sum, message) => sum + message.content.length, 0)),
+          completionTokens: estimateTokens(outputChars)
+        };
+        total.promptTokens += usage.promptTokens;
+        total.completionTokens += usage.completionTokens;
+      }
+    };
+  };
+
+  const metered: LlmProvider = {
+    name: provider.name,
+    model: provider.model,
+    async complete(request) {
+      const tracker = track(request.messages);
+      let outputChars = 0;
+      try {
+        const result = await provider.complete({ ...request, onUsage: tracker.onUsage });
+        outputChars = result.content.length;
+        return result;
+      } finally {
+        tracker.finish(outputChars);
+      }
+    },
+    async *stream(request) {
+      const tracker = track(request.messages);
+      let outputChars = 0;
+      try {
+        for await (const delta of provider.stream({ ...request, onUsage: tracker.onUsage })) {
+          outputChars += delta.length;
+          yield delta;
+        }
+      } finally {
+        tracker.finish(outputChars);
+      }
+    }
+  };
+
+  return {
+    provider: metered,
+    getUsage: (): TokenUsage => ({ ...total })
+  };
+}
+
+function readCeiling(value: string | undefined) {
+  const ceiling = Number(value);
+  return value?.trim() && Number.isFinite(ceiling) && ceiling > 0 ? ceiling : null;
+}
+
+/** Daily token ceilings from DAILY_TOKEN_CEILING_PER_CALLER and DAILY_TOKEN_CEILING_GLOBAL; unset means none. */
+export function getUsageCeilings(): UsageCeilings {
+  return {
+    perCaller: readCeiling(process.env.DAILY_TOKEN_CEILING_PER_CALLER),
+    global: readCeiling(process.env.DAILY_TOKEN_CEILING_GLOBAL)
+  };
+}
+
+async function getTokensUsedToday(store: RateLimitStore, usageId: string) {
+  const { promptTokens, completionTokens } = toUsageDay('', await store.get(getUsageKey(usageId, getDateUTC())));
+  return promptTokens + completionTokens;
+}
+
+/**
+ * Returns why the caller may not spend more tokens today, or null. The ceilings bound model spend
+ * independently of credits and apply to every tier; requests already in flight may overshoot them slightly.
+ */
+export async function checkUsageCeilings(
+  identity: RateLimitIdentity,
+  store: RateLimitStore = getRateLimitStore()
+): Promise<string | null> {
+  const ceilings = getUsageCeilings();
+
+  if (ceilings.global !== null && (await getTokensUsedToday(store, GLOBAL_USAGE_ID)) >= ceilings.global) {
+    return 'Quiziq has reached its usage limit for today. Please try again after midnight UTC.';
+  }
+  if (ceilings.perCaller !== null && (await getTokensUsedToday(store, identity.docId)) >= ceilings.perCaller) {
+    return 'You have reached the daily usage ceiling. Please try again after midnight UTC.';
+  }
+  return null;
+}
+
+/** Adds a request's tokens and credits to the caller's and the global daily totals. Failures are only logged. */
+export async function recordUsage(
+  identity: RateLimitIdentity,
+  { endpoint, model, usage, credits }: { endpoint: UsageEndpoint; model: string; usage: TokenUsage; credits: number },
+  store: RateLimitStore = getRateLimitStore()
+) {
+  const date = getDateUTC();
+  const modelField = `model_${model.replace(/[^\w-]/g, '_')}`;
+  const add = (state: RateLimitState | undefined): RateLimitState => ({
+    ...state,
+    requests: readTotal(state, 'requests') + 1,
+    credits: readTotal(state, 'credits') + credits,
+    promptTokens: readTotal(state, 'promptTokens') + usage.promptTokens,
+    completionTokens: readTotal(state, 'completionTokens') + usage.completionTokens,
+    [`endpoint_${endpoint}`]: readTotal(state, `endpoint_${endpoint}`) + 1,
+    [modelField]: readTotal(state, modelField) + usage.promptTokens + usage.completionTokens
+  });
+
+  try {
+    await Promise.all(
+      [identity.docId, GLOBAL_USAGE_ID].map((usageId) =>
+        store.update(getUsageKey(usageId, date), (state) => ({ state: add(state), result: undefined }))
+      )
+    );
+  } catch (error) {
+    console.error('Failed to record usage:', error);
+  }
+}
+
+/** The caller's daily usage totals for the last `days` days, newest first; days without usage are left out. */
+export async function getUsageHistory(
+  identity: RateLimitIdentity,
+  days = 30,
+  store: RateLimitStore = getRateLimitStore()
+): Promise<UsageDay[]> {
+  const now = Date.now();
+  const dates = Array.from({ length: days }, (_, index) => getDateUTC(new Date(now - index * DAY_MS)));
+  const states = await Promise.all(dates.map((date) => store.get(getUsageKey(identity.docId, date))));
+
+  return dates.flatMap((date, index) => (states[index] ? [toUsageDay(date, states[index])] : []));
+}
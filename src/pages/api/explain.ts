@@ -0,0 +1,117 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getClientIp } from '@/lib/clientIp';
+import {
+  assertContentAllowed,
+  ContentModerationError,
+  getContentClassifier,
+  type ContentClassifier
+} from '@/lib/contentModeration';
+import { EXPLANATION_COST } from '@/lib/creditCosts';
+import { explainQuestion, MAX_FOLLOW_UP_CHARS, sanitizeThread } from '@/lib/followUpExplanations';
+import { sanitizeLanguage } from '@/lib/languages';
+import { getLlmProvider, LlmProviderError, type LlmProvider } from '@/lib/llmProvider';
+import { QUESTION_TYPES } from '@/lib/questionMix';
+import { signReply, verifyQuestion, verifyThread } from '@/lib/questionTokens';
+import type { AnswerValue } from '@/lib/quizScoring';
+import { validateQuestion } from '@/lib/quizValidation';
+import type { RateLimitIdentity } from '@/lib/rateLimit';
+import { chargeRateLimit } from '@/lib/rateLimitGuard';
+import { meterProvider, recordUsage } from '@/lib/usageMetering';
+
+function isIndex(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+function sanitizeAnswer(value: unknown): AnswerValue | undefined {
+  if (value === null || isIndex(value)) return value;
+  if (typeof value === 'string') return value.slice(0, MAX_FOLLOW_UP_CHARS);
+  if (Array.isArray(value) && value.every(isIndex)) return value;
+  return undefined;
+}
+
+/**
+ * "Explain this more" for a question on the results review screen. An empty `thread` asks for a deeper
+ * explanation of the player's answer; otherwise `thread` ends with the player's follow-up question.
+ * Only questions this app generated and tutor replies it gave are accepted, both checked by their tokens,
+ * so the endpoint cannot be used to put arbitrary text in front of the model.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { question: rawQuestion, selected, thread: rawThread, language } = req.body || {};
+  if (!verifyQuestion(rawQuestion)) {
+    return res.status(400).json({ error: 'Only questions from a quiz generated here can be explained' });
+  }
+
+  const questionType = rawQuestion.type;
+  const { question } = QUESTION_TYPES.includes(questionType)
+    ? validateQuestion(rawQuestion, questionType)
+    : { question: null };
+  if (!question) {
+    return res.status(400).json({ error: 'A valid quiz question is required' });
+  }
+
+  const answer = sanitizeAnswer(selected);
+  if (answer === undefined) {
+    return res.status(400).json({ error: 'selected must be an option index, a list of indices or typed text' });
+  }
+
+  const thread = sanitizeThread(rawThread);
+  if (!thread) {
+    return res.status(400).json({ error: 'thread must alternate tutor replies and follow-up questions' });
+  }
+  if (!verifyThread(rawQuestion.token, answer, thread)) {
+    return res.status(400).json({ error: 'thread contains tutor replies that were not given here' });
+  }
+
+  let provider: LlmProvider;
+  let classifier: ContentClassifier;
+  try {
+    provider = getLlmProvider();
+    classifier = getContentClassifier();
+  } catch (error) {
+    return res.status(500).json({ error: error instanceof Error ? error.message : 'LLM provider is not configured' });
+  }
+
+  const clientIp = getClientIp(req);
+  const followUps = thread.filter((message) => message.role === 'user');
+  const meter = meterProvider(provider);
+  let identity: RateLimitIdentity | null = null;
+
+  try {
+    for (const followUp of followUps) {
+      await assertContentAllowed(classifier, followUp.content, 'input', clientIp);
+    }
+    identity = await chargeRateLimit(req, res, EXPLANATION_COST);
+    if (!identity) return;
+
+    const reply = await explainQuestion(meter.provider, question, answer, thread, sanitizeLanguage(language));
+    if (!reply) {
+      return res.status(502).json({ error: 'The explanation came back empty. Please try again.' });
+    }
+    await assertContentAllowed(classifier, reply, 'output', clientIp);
+    const token = signReply(rawQuestion.token, answer, [...thread, { role: 'assistant', content: reply }]);
+    return res.status(200).json({ reply, token });
+  } catch (error) {
+    if (error instanceof ContentModerationError) {
+      return res.status(error.status).json({ error: error.message, contentBlocked: true, categories: error.categories });
+    }
+    if (error instanceof LlmProviderError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Explain API error:', error);
+    return res.status(500).json({ error: 'Server error' });
+  } finally {
+    if (identity) {
+      await recordUsage(identity, {
+        endpoint: 'explain',
+        model: provider.model,
+        usage: meter.getUsage(),
+        credits: EXPLANATION_COST
+      });
+    }
+  }
+}
@@ -1,89 +1,45 @@
+import { randomBytes } from 'crypto';
 import type { NextApiRequest, NextApiResponse } from 'next';
+import { getGenerationErrorResponse } from '@/lib/apiErrors';
 import { getClientIp } from '@/lib/clientIp';
-import { checkRateLimit } from '@/lib/rateLimit';
+import { assertContentAllowed, getContentClassifier, moderateQuizEvents, type ContentClassifier } from '@/lib/contentModeration';
+import { getQuizCreditCost, getSentInputChars } from '@/lib/creditCosts';
+import { DEFAULT_LANGUAGE, sanitizeLanguage } from '@/lib/languages';
+import { getLlmProvider, type LlmProvider } from '@/lib/llmProvider';
+import {
+  createMaterialGuard,
+  detectInstructionLikeContent,
+  sanitizeAvoidQuestions,
+  sanitizeUntrustedText
+} from '@/lib/promptInjection';
+import { allocateQuestionCounts, DEFAULT_QUESTION_MIX, QUESTION_TYPES, sanitizeQuestionMix } from '@/lib/questionMix';
+import { MAX_EXCLUDED_QUESTIONS } from '@/lib/questionSimilarity';
+import { signQuizEvents } from '@/lib/questionTokens';
+import { getQuizCache, replayQuiz, type QuizCacheKeyParts } from '@/lib/quizCache';
+import { generateChunkedQuiz, generateQuiz } from '@/lib/quizGenerator';
+import { shuffleQuizEvents } from '@/lib/quizShuffle';
+import { chargeRateLimit } from '@/lib/rateLimitGuard';
+import { createSourceVerifier } from '@/lib/sourceCitations';
+import { selectSections, splitStudyGuide } from '@/lib/studyGuideSections';
+import { meterProvider, recordUsage } from '@/lib/usageMetering';
+import type { Difficulty, QuestionTypeSetting, QuizPayload, QuizStreamEvent } from '@/types/quiz';
 
-type QuizQuestion = {
-  question: string;
-  options: string[];
-  answerIndex: number;
-  explanation: string;
-};
-
-type QuizPayload = {
-  title: string;
-  questions: QuizQuestion[];
-};
-
-type Difficulty = 'beginner' | 'intermediate' | 'advanced' | 'mixed';
-
-const DIFFICULTY_GUIDES: Record<Difficulty, string> = {
-  beginner:
-    'Use foundational concepts, direct wording, and straightforward distractors. Prioritize basic understanding over nuance.',
-  intermediate:
-    'Use moderate complexity and scenario-based reasoning. Include some nuanced distractors that require comparison.',
-  advanced:
-    'Use rigorous conceptual depth, edge cases, and higher-order reasoning. Distractors should be subtle and intellectually demanding.',
-  mixed:
-    'Mix beginner, intermediate, and advanced questions in balanced proportions for varied difficulty.'
-};
-
-function getSystemPrompt(questionType: string) {
-  if (questionType === 'true-false') {
-    return `You are a quiz generator. Return ONLY valid JSON with this shape:
-{
-  "title": string,
-  "questions": [
-    {
-      "question": string,
-      "options": ["True", "False"],
-      "answerIndex": number,
-      "explanation": string
+// Text extracted from a long PDF easily exceeds the default 1mb body limit.
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '5mb'
     }
-  ]
-}
-Rules:
-- Generate TRUE/FALSE questions only.
-- Provide exactly the requested number of questions.
-- Options must always be ["True", "False"] exactly.
-- answerIndex must be 0 (for True) or 1 (for False).
-- IMPORTANT: Vary the correct answers - DO NOT make all answers True or all answers False. Mix them up randomly.
-- Create diverse and unique questions each time - avoid repetitive patterns.
-- Aim for roughly balanced distribution of True and False answers.
-- Explanations must be CollegeBoard/AP-level: precise, concept-driven, and 1–3 sentences.
-- No markdown, no extra text, JSON only.`;
   }
+};
 
-  // Default: multiple-choice
-  return `You are a quiz generator. Return ONLY valid JSON with this shape:
-{
-  "title": string,
-  "questions": [
-    {
-      "question": string,
-      "options": [string, string, string, string],
-      "answerIndex": number,
-      "explanation": string
-    }
-  ]
-}
-Rules:
-- Generate MULTIPLE CHOICE questions only.
-- Provide exactly the requested number of questions.
-- Options must have 4 items and answerIndex must match the correct option (0-3).
-- IMPORTANT: Vary the position of correct answers - DO NOT always put the correct answer in the same position.
-- Create unique and diverse questions each time - be creative and avoid repetition.
-- Make wrong options plausible but clearly distinct from the correct answer.
-- Randomize which option slot (0-3) contains the correct answer for each question.
-- Explanations must be CollegeBoard/AP-level: precise, concept-driven, and 1–3 sentences.
-- No markdown, no extra text, JSON only.`;
-}
-
-function extractJson(text: string) {
-  const first = text.indexOf('{');
-  const last = text.lastIndexOf('}');
-  if (first === -1 || last === -1 || last <= first) return null;
-  const slice = text.slice(first, last + 1);
-  return slice;
+async function* withContentWarnings(
+  events: AsyncIterable<QuizStreamEvent>,
+  warnings: string[]
+): AsyncGenerator<QuizStreamEvent> {
+  for await (const event of events) {
+    yield event.type === 'done' ? { ...event, quiz: { ...event.quiz, contentWarnings: warnings } } : event;
+  }
 }
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
@@ -92,44 +48,47 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { mode, topic, studyGuide, questionType, difficulty, count } = req.body || {};
-
-  // Check rate limit
-  const clientIp = getClientIp(req);
-  if (!clientIp) {
-    return res.status(400).json({ error: 'Unable to determine client IP for rate limiting' });
-  }
-
-  try {
-    const rateLimitResult = await checkRateLimit(clientIp);
-
-    if (!rateLimitResult.allowed) {
-      return res.status(429).json({
-        error: rateLimitResult.reason,
-        rateLimitExceeded: true
-      });
-    }
-
-    // Add rate limit info to response headers
-    res.setHeader('X-RateLimit-Remaining-Daily', rateLimitResult.remaining?.daily.toString() || '0');
-    res.setHeader('X-RateLimit-Limit-Daily', rateLimitResult.remaining?.dailyLimit.toString() || '5');
-  } catch (error) {
-    console.error('Rate limit check error:', error);
-    return res.status(500).json({ error: 'Rate limit check failed' });
-  }
+  const {
+    mode,
+    topic,
+    studyGuide,
+    questionType,
+    questionMix,
+    difficulty,
+    count,
+    sections,
+    excludeQuestions,
+    seed,
+    language,
+    languageLearning,
+    learnerLanguage,
+    stream
+  } = req.body || {};
 
   // Validate mode and content
   if (!mode || (mode !== 'topic' && mode !== 'studyGuide')) {
     return res.status(400).json({ error: 'Valid mode is required (topic or studyGuide)' });
   }
 
-  const content = mode === 'topic' ? topic : studyGuide;
-  if (!content || typeof content !== 'string') {
+  const rawContent = mode === 'topic' ? topic : studyGuide;
+  if (!rawContent || typeof rawContent !== 'string') {
     return res.status(400).json({ error: `${mode === 'topic' ? 'Topic' : 'Study guide'} is required` });
   }
 
+  // Submitted text is material to quiz on, never instructions: flag anything that reads like a prompt
+  // injection, strip characters that hide or impersonate prompt structure, and fence it off in the prompt.
+  const injectionWarnings = Array.from(new Set(detectInstructionLikeContent(rawContent).map((finding) => finding.rule)));
+  if (injectionWarnings.length) {
+    console.warn('Instruction-like content in quiz request:', injectionWarnings);
+  }
+  const content = sanitizeUntrustedText(rawContent);
+  // Questions the player has already seen on this topic, gathered client-side from their history.
+  const avoidQuestions = sanitizeAvoidQuestions(excludeQuestions, MAX_EXCLUDED_QUESTIONS);
+
   const safeCount = Math.min(Math.max(Number(count) || 10, 3), 20);
-  const safeQuestionType = questionType || 'multiple-choice';
+  const safeQuestionType: QuestionTypeSetting =
+    questionType === 'mixed' || QUESTION_TYPES.includes(questionType) ? questionType : 'multiple-choice';
+  const requestedMix = sanitizeQuestionMix(questionMix);
   const safeDifficulty: Difficulty =
     difficulty === 'beginner' ||
     difficulty === 'intermediate' ||
@@ -138,68 +97,161 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       ? difficulty
       : 'mixed';
 
-  const apiKey = process.env.GROQ_API_KEY;
-  if (!apiKey) {
-    return res.status(500).json({ error: 'Missing GROQ_API_KEY' });
+  let provider: LlmProvider;
+  let classifier: ContentClassifier;
+  try {
+    provider = getLlmProvider();
+    classifier = getContentClassifier();
+  } catch (error) {
+    return res.status(500).json({ error: error instanceof Error ? error.message : 'LLM provider is not configured' });
   }
 
-  const model = 'llama-3.3-70b-versatile';
-
+  const clientIp = getClientIp(req);
   try {
-    const maxTokens = Math.min(8000, 800 + safeCount * 350);
-    const SYSTEM_PROMPT = getSystemPrompt(safeQuestionType);
-    const difficultyGuide = DIFFICULTY_GUIDES[safeDifficulty];
-    
-    const randomSeed = Math.random().toString(36).substring(7);
-    const userPrompt = mode === 'topic'
-      ? `Generate a UNIQUE and VARIED quiz on the following topic:\n\n${content}\n\nQuestion count: ${safeCount}\nDifficulty target: ${safeDifficulty}\nDifficulty guidance: ${difficultyGuide}\n\nMake this quiz different from any previous quizzes. Random seed: ${randomSeed}`
-      : `Generate a UNIQUE quiz based ONLY on the following study guide content. Do not include information outside of this content:\n\n${content}\n\nQuestion count: ${safeCount}\nDifficulty target: ${safeDifficulty}\nDifficulty guidance: ${difficultyGuide}\n\nMake this quiz varied and different. Random seed: ${randomSeed}`;
-
-    const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model,
-        temperature: 0.9,
-        max_tokens: maxTokens,
-        messages: [
-          { role: 'system', content: SYSTEM_PROMPT },
-          { role: 'user', content: userPrompt }
-        ]
-      })
-    });
-
-    if (!response.ok) {
-      const text = await response.text();
-      return res.status(response.status).json({ error: text || 'Groq API error' });
+    await assertContentAllowed(classifier, content, 'input', clientIp);
+    if (avoidQuestions.length) {
+      await assertContentAllowed(classifier, avoidQuestions.join('\n'), 'input', clientIp);
     }
+  } catch (error) {
+    const { status, body } = getGenerationErrorResponse(error);
+    return res.status(status).json(body);
+  }
 
-    const data = await response.json();
-    const aiResponse: string = data?.choices?.[0]?.message?.content || '';
-    const jsonText = extractJson(aiResponse) || aiResponse;
+  // Long study guides are generated section by section; `sections` optionally narrows which ones.
+  const selectedSections = selectSections(mode === 'studyGuide' ? splitStudyGuide(content) : [], sections);
+  if (!selectedSections) {
+    return res.status(400).json({ error: 'sections must list study guide section numbers' });
+  }
 
-    let parsed: QuizPayload;
-    try {
-      parsed = JSON.parse(jsonText);
-    } catch {
-      return res.status(500).json({ error: 'Failed to parse AI response' });
+  const safeLanguage = sanitizeLanguage(language);
+  // Language-learning quizzes keep explanations and hints in the learner's own language.
+  const safeLearnerLanguage = languageLearning === true ? sanitizeLanguage(learnerLanguage) : undefined;
+
+  const generationOptions = {
+    mode,
+    questionType: safeQuestionType,
+    questionMix:
+      safeQuestionType === 'mixed'
+        ? allocateQuestionCounts(Object.keys(requestedMix).length ? requestedMix : DEFAULT_QUESTION_MIX, safeCount)
+        : undefined,
+    difficulty: safeDifficulty,
+    count: safeCount,
+    avoidQuestions,
+    sourceVerifier: mode === 'studyGuide' ? createSourceVerifier(content) : undefined,
+    // Vocabulary overlap only means something when the quiz is in the same language as the material.
+    materialGuard: createMaterialGuard(content, {
+      requireOverlap: mode === 'studyGuide' && safeLanguage === DEFAULT_LANGUAGE && !safeLearnerLanguage
+    }),
+    language: safeLanguage,
+    learnerLanguage: safeLearnerLanguage
+  };
+
+  // Identical requests share one generation and are served from the cache without spending a credit.
+  // Requests that skip previously seen questions are personal, so they always generate.
+  const cache = generationOptions.avoidQuestions.length ? null : getQuizCache();
+  const cacheKey: QuizCacheKeyParts = {
+    ...generationOptions,
+    content,
+    sections: sections === undefined ? undefined : selectedSections.map((section) => section.index)
+  };
+  const lookup = cache ? await cache.get(cacheKey) : null;
+  const cached = lookup?.quiz ?? null;
+  res.setHeader('X-Quiz-Cache', cached ? 'hit' : cache ? 'miss' : 'bypass');
+
+  // Credits scale with what the model is asked to read and write, not one flat charge per quiz.
+  const inputChars = selectedSections.length
+    ? getSentInputChars(selectedSections.map((section) => section.content.length), safeCount)
+    : content.length;
+  const creditCost = getQuizCreditCost(safeCount, inputChars);
+  const identity = cached ? null : await chargeRateLimit(req, res, creditCost);
+  if (!cached && !identity) {
+    lookup?.claim?.abandon();
+    return;
+  }
+
+  const meter = meterProvider(provider);
+  const recordGenerationUsage = async () => {
+    if (identity) {
+      await recordUsage(identity, { endpoint: 'quiz', model: provider.model, usage: meter.getUsage(), credits: creditCost });
     }
+  };
 
-    if (!parsed?.questions?.length) {
-      return res.status(500).json({ error: 'Invalid AI response format' });
+  // Option order is decided here rather than trusted to the model; a caller-supplied seed reproduces a layout.
+  // The generator takes the same seed for its own choices, such as the true/false split.
+  const shuffleSeed =
+    typeof seed === 'string' && /^[\w-]{1,64}$/.test(seed) ? seed : randomBytes(8).toString('hex');
+
+  const generate = () =>
+    selectedSections.length > 1
+      ? generateChunkedQuiz(meter.provider, {
+          ...generationOptions,
+          seed: shuffleSeed,
+          sections: selectedSections.map((section) => section.content)
+        })
+      : generateQuiz(meter.provider, {
+          ...generationOptions,
+          seed: shuffleSeed,
+          content: selectedSections[0]?.content ?? content
+        });
+
+  const generated = cached ? replayQuiz(cached) : lookup?.claim ? lookup.claim.record(generate()) : generate();
+
+  // Signed last, once the option order is final, so explain requests can prove the question came from here.
+  const shuffled = signQuizEvents(shuffleQuizEvents(moderateQuizEvents(generated, classifier, clientIp), shuffleSeed));
+  const events = injectionWarnings.length ? withContentWarnings(shuffled, injectionWarnings) : shuffled;
+
+  if (stream !== true) {
+    try {
+      let quiz: QuizPayload | null = null;
+      for await (const event of events) {
+        if (event.type === 'done') quiz = event.quiz;
+      }
+      return res.status(200).json(quiz);
+    } catch (error) {
+      const { status, body } = getGenerationErrorResponse(error);
+      return res.status(status).json(body);
+    } finally {
+      await recordGenerationUsage();
     }
+  }
 
-    // Trim to requested count if AI returned extra
-    if (parsed.questions.length > safeCount) {
-      parsed.questions = parsed.questions.slice(0, safeCount);
+  // Stream newline-delimited JSON events so the client can start on question 1 immediately.
+  // Headers are only committed once the first event is ready, so early failures keep their status code.
+  let streamStarted = false;
+  let clientClosed = false;
+  res.on('close', () => {
+    clientClosed = true;
+  });
+
+  const writeEvent = (event: QuizStreamEvent) => {
+    if (!streamStarted) {
+      streamStarted = true;
+      res.writeHead(200, {
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        'X-Accel-Buffering': 'no'
+      });
     }
+    res.write(`${JSON.stringify(event)}\n`);
+  };
 
-    return res.status(200).json(parsed);
+  try {
+    for await (const event of events) {
+      if (!clientClosed) {
+        writeEvent(event);
+      } else if (!cache || cached) {
+        break;
+      }
+      // Otherwise keep generating after the client leaves so the result still reaches the cache.
+    }
   } catch (error) {
-    console.error('Quiz API error:', error);
-    return res.status(500).json({ error: 'Server error', details: error instanceof Error ? error.message : String(error) });
+    const { status, body } = getGenerationErrorResponse(error);
+    if (!streamStarted) {
+      return res.status(status).json(body);
+    }
+    writeEvent({ type: 'error', error: body.error });
   }
+
+  res.end();
+  await recordGenerationUsage();
 }
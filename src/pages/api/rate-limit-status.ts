@@ -1,6 +1,6 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { getClientIp } from '@/lib/clientIp';
 import { getRateLimitStatus } from '@/lib/rateLimit';
+import { resolveRateLimitIdentity } from '@/lib/rateLimitGuard';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
@@ -8,13 +8,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const clientIp = getClientIp(req);
-  if (!clientIp) {
-    return res.status(400).json({ error: 'Unable to determine client IP for rate limiting' });
-  }
+  const identity = await resolveRateLimitIdentity(req, res);
+  if (!identity) return;
 
   try {
-    const status = await getRateLimitStatus(clientIp);
+    const status = await getRateLimitStatus(identity);
     return res.status(200).json(status);
   } catch (error) {
     console.error('Rate limit status error:', error);
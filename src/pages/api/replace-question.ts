@@ -0,0 +1,166 @@
+import { randomBytes } from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getGenerationErrorResponse } from '@/lib/apiErrors';
+import { getClientIp } from '@/lib/clientIp';
+import { assertContentAllowed, getContentClassifier, moderateQuizEvents, type ContentClassifier } from '@/lib/contentModeration';
+import { REPLACE_QUESTION_COST } from '@/lib/creditCosts';
+import { DEFAULT_LANGUAGE, sanitizeLanguage } from '@/lib/languages';
+import { getLlmProvider, type LlmProvider } from '@/lib/llmProvider';
+import {
+  createMaterialGuard,
+  detectInstructionLikeContent,
+  sanitizeAvoidQuestions,
+  sanitizeUntrustedText
+} from '@/lib/promptInjection';
+import { QUESTION_TYPES } from '@/lib/questionMix';
+import { signQuestion } from '@/lib/questionTokens';
+import { generateQuiz } from '@/lib/quizGenerator';
+import { shuffleQuestionOptions } from '@/lib/quizShuffle';
+import { chargeRateLimit } from '@/lib/rateLimitGuard';
+import { createSourceVerifier } from '@/lib/sourceCitations';
+import { selectSections, splitStudyGuide } from '@/lib/studyGuideSections';
+import { meterProvider, recordUsage } from '@/lib/usageMetering';
+import type { Difficulty, QuestionType, QuizQuestion } from '@/types/quiz';
+
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '5mb'
+    }
+  }
+};
+
+const MAX_AVOID_QUESTIONS = 20;
+
+/**
+ * Generates one question to take the place of `index` in the current quiz. The client sends every
+ * question already in the quiz so the replacement does not repeat any of them.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const {
+    mode,
+    topic,
+    studyGuide,
+    questionType,
+    difficulty,
+    sections,
+    avoidQuestions,
+    sourceQuote,
+    seed,
+    index,
+    language,
+    languageLearning,
+    learnerLanguage
+  } = req.body || {};
+
+  if (!mode || (mode !== 'topic' && mode !== 'studyGuide')) {
+    return res.status(400).json({ error: 'Valid mode is required (topic or studyGuide)' });
+  }
+
+  const rawContent = mode === 'topic' ? topic : studyGuide;
+  if (!rawContent || typeof rawContent !== 'string') {
+    return res.status(400).json({ error: `${mode === 'topic' ? 'Topic' : 'Study guide'} is required` });
+  }
+  // Screened like /api/quiz: the material and the avoid list are data for the prompt, never instructions.
+  const injectionWarnings = Array.from(new Set(detectInstructionLikeContent(rawContent).map((finding) => finding.rule)));
+  if (injectionWarnings.length) {
+    console.warn('Instruction-like content in replace-question request:', injectionWarnings);
+  }
+  const content = sanitizeUntrustedText(rawContent);
+  const safeAvoidQuestions = sanitizeAvoidQuestions(avoidQuestions, MAX_AVOID_QUESTIONS);
+
+  if (!QUESTION_TYPES.includes(questionType)) {
+    return res.status(400).json({ error: 'questionType must be the type of the question being replaced' });
+  }
+
+  const selectedSections = selectSections(mode === 'studyGuide' ? splitStudyGuide(content) : [], sections);
+  if (!selectedSections) {
+    return res.status(400).json({ error: 'sections must list study guide section numbers' });
+  }
+
+  const safeDifficulty: Difficulty =
+    difficulty === 'beginner' ||
+    difficulty === 'intermediate' ||
+    difficulty === 'advanced' ||
+    difficulty === 'mixed'
+      ? difficulty
+      : 'mixed';
+  const safeIndex = Number.isInteger(index) && index >= 0 ? index : 0;
+  const safeLanguage = sanitizeLanguage(language);
+  const safeLearnerLanguage = languageLearning === true ? sanitizeLanguage(learnerLanguage) : undefined;
+
+  let provider: LlmProvider;
+  let classifier: ContentClassifier;
+  try {
+    provider = getLlmProvider();
+    classifier = getContentClassifier();
+  } catch (error) {
+    return res.status(500).json({ error: error instanceof Error ? error.message : 'LLM provider is not configured' });
+  }
+
+  const clientIp = getClientIp(req);
+  try {
+    await assertContentAllowed(classifier, content, 'input', clientIp);
+    if (safeAvoidQuestions.length) {
+      await assertContentAllowed(classifier, safeAvoidQuestions.join('\n'), 'input', clientIp);
+    }
+  } catch (error) {
+    const { status, body } = getGenerationErrorResponse(error);
+    return res.status(status).json(body);
+  }
+
+  const identity = await chargeRateLimit(req, res, REPLACE_QUESTION_COST);
+  if (!identity) return;
+  const meter = meterProvider(provider);
+
+  // Draw from the section the replaced question came from, so a long guide stays on the same material.
+  const sourceSection =
+    typeof sourceQuote === 'string'
+      ? selectedSections.find((section) => createSourceVerifier(section.content).verify(sourceQuote))
+      : undefined;
+  const section = sourceSection ?? selectedSections[Math.floor(Math.random() * selectedSections.length)];
+
+  try {
+    let question: QuizQuestion | undefined;
+    const generated = generateQuiz(meter.provider, {
+      mode,
+      content: section?.content ?? content,
+      questionType: questionType as QuestionType,
+      difficulty: safeDifficulty,
+      count: 1,
+      avoidQuestions: safeAvoidQuestions,
+      sourceVerifier: mode === 'studyGuide' ? createSourceVerifier(content) : undefined,
+      materialGuard: createMaterialGuard(content, {
+        requireOverlap: mode === 'studyGuide' && safeLanguage === DEFAULT_LANGUAGE && !safeLearnerLanguage
+      }),
+      language: safeLanguage,
+      learnerLanguage: safeLearnerLanguage
+    });
+    for await (const event of moderateQuizEvents(generated, classifier, clientIp)) {
+      if (event.type === 'question') question = event.question;
+    }
+
+    if (!question) {
+      return res.status(502).json({ error: 'Could not generate a replacement question. Please try again.' });
+    }
+
+    const shuffleSeed =
+      typeof seed === 'string' && /^[\w-]{1,64}$/.test(seed) ? seed : randomBytes(8).toString('hex');
+    return res.status(200).json({ question: signQuestion(shuffleQuestionOptions(question, shuffleSeed, safeIndex)) });
+  } catch (error) {
+    const { status, body } = getGenerationErrorResponse(error);
+    return res.status(status).json(body);
+  } finally {
+    await recordUsage(identity, {
+      endpoint: 'replace-question',
+      model: provider.model,
+      usage: meter.getUsage(),
+      credits: REPLACE_QUESTION_COST
+    });
+  }
+}
@@ -0,0 +1,23 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { resolveRateLimitIdentity } from '@/lib/rateLimitGuard';
+import { getUsageHistory, MAX_USAGE_HISTORY_DAYS } from '@/lib/usageMetering';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const identity = await resolveRateLimitIdentity(req, res);
+  if (!identity) return;
+
+  const days = Math.min(Math.max(Number(req.query.days) || 30, 1), MAX_USAGE_HISTORY_DAYS);
+
+  try {
+    const history = await getUsageHistory(identity, days);
+    return res.status(200).json({ tier: identity.tier, days: history });
+  } catch (error) {
+    console.error('Usage history error:', error);
+    return res.status(500).json({ error: 'Failed to get usage history' });
+  }
+}
@@ -1,5 +1,8 @@
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
+import { ExplanationThread } from '@/components/quiz/ExplanationThread';
+import { SortableList } from '@/components/quiz/SortableList';
+import { SourceCitation } from '@/components/quiz/SourceCitation';
 import { useAuth } from '@/context/AuthContext';
 import {
   useCallback,
@@ -12,19 +15,37 @@ import {
 } from 'react';
 import { addDoc, collection, serverTimestamp } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { getAuthHeaders } from '@/lib/authHeaders';
+import { getQuizCreditCost, getSentInputChars, REPLACE_QUESTION_COST } from '@/lib/creditCosts';
+import { DEFAULT_LANGUAGE, getLanguageName, QUIZ_LANGUAGES } from '@/lib/languages';
+import {
+  formatScore,
+  getAnswerLabel,
+  getArrangementSlotResults,
+  getCorrectAnswerLabel,
+  getCorrectOptionIndices,
+  gradeAnswer,
+  isFreeResponseQuestion,
+  type AnswerValue
+} from '@/lib/quizScoring';
+import {
+  allocateQuestionCounts,
+  DEFAULT_QUESTION_MIX,
+  getMixTotal,
+  QUESTION_TYPE_BADGES,
+  QUESTION_TYPES
+} from '@/lib/questionMix';
+import { seededShuffle } from '@/lib/quizShuffle';
+import { readQuizStream } from '@/lib/quizStream';
+import { detectInstructionLikeContent } from '@/lib/promptInjection';
+import { HINT_LABELS } from '@/lib/questionHints';
+import { getQuestionFingerprint } from '@/lib/questionSimilarity';
+import { getSeenQuestions } from '@/lib/seenQuestions';
+import { formatPageMarker } from '@/lib/sourceCitations';
+import { splitStudyGuide } from '@/lib/studyGuideSections';
+import type { RateLimitStatus } from '@/lib/rateLimit';
 import * as Icons from 'lucide-react';
-
-type Question = {
-  question: string;
-  options: string[];
-  answerIndex: number;
-  explanation: string;
-};
-
-type Quiz = {
-  title: string;
-  questions: Question[];
-};
+import type { QuestionMix, QuestionTypeSetting, QuizPayload as Quiz, QuizQuestion, QuizSettings } from '@/types/quiz';
 
 type TrendingTopic = {
   id: string;
@@ -36,9 +57,11 @@ type TrendingTopic = {
 type Difficulty = 'beginner' | 'intermediate' | 'advanced' | 'mixed';
 
 type AnswerRecord = {
-  selected: number | null;
-  correct: number;
+  selected: AnswerValue;
+  credit: number;
   timeSpent: number;
+  /** How many hint levels were revealed before answering. */
+  hintLevels: number;
 };
 
 const DIFFICULTY_LABELS: Record<Difficulty, string> = {
@@ -48,30 +71,64 @@ const DIFFICULTY_LABELS: Record<Difficulty, string> = {
   mixed: 'Mixed'
 };
 
+const QUESTION_TYPE_LABELS: Record<QuestionTypeSetting, string> = {
+  'multiple-choice': 'Multiple Choice',
+  'true-false': 'True / False',
+  'multi-select': 'Multi-Select',
+  'fill-in-the-blank': 'Fill in the Blank',
+  'short-answer': 'Short Answer',
+  matching: 'Matching',
+  ordering: 'Ordering',
+  numeric: 'Numeric',
+  mixed: 'Mixed'
+};
+
+function toggleIndex(values: number[], index: number) {
+  return values.includes(index) ? values.filter((value) => value !== index) : [...values, index];
+}
+
+function shuffleIndices(size: number) {
+  let indices = Array.from({ length: size }, (_, index) => index);
+  // Never start a matching/ordering item already solved.
+  while (size > 1 && indices.every((value, index) => value === index)) {
+    indices = seededShuffle(indices, Math.random);
+  }
+  return indices;
+}
+
+function getInitialArrangement(question: QuizQuestion | undefined) {
+  if (question?.type === 'matching') return shuffleIndices(question.pairs.length);
+  if (question?.type === 'ordering') return shuffleIndices(question.items.length);
+  return [];
+}
+
+function getHintLevelsUsed(answers: AnswerRecord[]) {
+  return answers.reduce((total, answer) => total + answer.hintLevels, 0);
+}
+
 function getAverageTime(values: number[]) {
   if (!values.length) return 0;
   const total = values.reduce((sum, value) => sum + value, 0);
   return total / values.length;
 }
 
-function getHintFromExplanation(explanation: string) {
-  const normalized = explanation.replace(/\s+/g, ' ').trim();
-  const firstSentence = normalized.match(/[^.!?]+[.!?]?/)?.[0] ?? normalized;
-  if (firstSentence.length <= 180) {
-    return firstSentence;
-  }
-  return `${firstSentence.slice(0, 177)}...`;
-}
-
 export default function Dashboard() {
   const { user } = useAuth();
   const [mode, setMode] = useState<'topic' | 'studyGuide'>('topic');
   const [topic, setTopic] = useState('');
   const [studyGuide, setStudyGuide] = useState('');
-  const [questionType, setQuestionType] = useState<'multiple-choice' | 'true-false'>('multiple-choice');
+  const [excludedSections, setExcludedSections] = useState<number[]>([]);
+  const [questionType, setQuestionType] = useState<QuestionTypeSetting>('multiple-choice');
+  const [questionMix, setQuestionMix] = useState<QuestionMix>(DEFAULT_QUESTION_MIX);
   const [difficulty, setDifficulty] = useState<Difficulty>('mixed');
   const [numQuestions, setNumQuestions] = useState('10');
+  const [skipSeenQuestions, setSkipSeenQuestions] = useState(false);
+  const [language, setLanguage] = useState(DEFAULT_LANGUAGE);
+  const [languageLearning, setLanguageLearning] = useState(false);
+  const [learnerLanguage, setLearnerLanguage] = useState(DEFAULT_LANGUAGE);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [expectedCount, setExpectedCount] = useState<number | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
   const hasSavedRef = useRef(false);
@@ -83,6 +140,9 @@ export default function Dashboard() {
   const [quiz, setQuiz] = useState<Quiz | null>(null);
   const [currentQuestion, setCurrentQuestion] = useState(0);
   const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
+  const [selectedOptions, setSelectedOptions] = useState<number[]>([]);
+  const [textAnswer, setTextAnswer] = useState('');
+  const [arrangement, setArrangement] = useState<number[]>([]);
   const [showExplanation, setShowExplanation] = useState(false);
   const [score, setScore] = useState(0);
   const [quizComplete, setQuizComplete] = useState(false);
@@ -98,27 +158,64 @@ export default function Dashboard() {
   const [fiftyFiftyUsed, setFiftyFiftyUsed] = useState(false);
   const [hintUsed, setHintUsed] = useState(false);
   const [eliminatedOptions, setEliminatedOptions] = useState<number[]>([]);
-  const [hintText, setHintText] = useState<string | null>(null);
+  const [hintLevel, setHintLevel] = useState(0);
   const [practiceMode, setPracticeMode] = useState(false);
   const [resultCopied, setResultCopied] = useState(false);
-  const [rateLimitStatus, setRateLimitStatus] = useState<{ daily: number; dailyLimit: number } | null>(null);
+  const [rateLimitStatus, setRateLimitStatus] = useState<RateLimitStatus | null>(null);
+  const [isReplacing, setIsReplacing] = useState(false);
+  const [replaceError, setReplaceError] = useState<string | null>(null);
 
   const averageResponseSeconds = useMemo(() => getAverageTime(responseTimes), [responseTimes]);
+  const studyGuideSections = useMemo(
+    () => (mode === 'studyGuide' ? splitStudyGuide(studyGuide) : []),
+    [mode, studyGuide]
+  );
+  const includedSectionCount = studyGuideSections.length - excludedSections.length;
+  const injectionWarnings = useMemo(
+    () =>
+      mode === 'studyGuide'
+        ? Array.from(new Set(detectInstructionLikeContent(studyGuide).map((finding) => finding.rule)))
+        : [],
+    [mode, studyGuide]
+  );
+  const languageRequest = { language, languageLearning, learnerLanguage: languageLearning ? learnerLanguage : undefined };
+  const explanationLanguage = languageLearning ? learnerLanguage : language;
+  const sectionSelection =
+    studyGuideSections.length > 1 && excludedSections.length
+      ? studyGuideSections.map((section) => section.index).filter((index) => !excludedSections.includes(index))
+      : undefined;
+  const questionCount = Math.min(Math.max(Number.parseInt(numQuestions, 10) || 10, 3), 20);
+  const generationCost = getQuizCreditCost(
+    questionCount,
+    mode === 'topic'
+      ? topic.trim().length
+      : getSentInputChars(
+          studyGuideSections
+            .filter((section) => !excludedSections.includes(section.index))
+            .map((section) => section.content.length),
+          questionCount
+        )
+  );
 
   useEffect(() => {
-    const fetchRateLimitStatus = async () => {
-      try {
-        const res = await fetch('/api/rate-limit-status');
-        if (res.ok) {
-          const data = await res.json();
-          setRateLimitStatus(data);
-        }
-      } catch (error) {
-        console.error('Failed to fetch rate limit status:', error);
+    setExcludedSections([]);
+  }, [studyGuide]);
+
+  const fetchRateLimitStatus = useCallback(async () => {
+    try {
+      const res = await fetch('/api/rate-limit-status', { headers: await getAuthHeaders(user) });
+      if (res.ok) {
+        const data = await res.json();
+        setRateLimitStatus(data);
       }
-    };
+    } catch (error) {
+      console.error('Failed to fetch rate limit status:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
     fetchRateLimitStatus();
-  }, []);
+  }, [fetchRateLimitStatus]);
 
   useEffect(() => {
     const fetchTrendingTopics = async () => {
@@ -140,11 +237,15 @@ export default function Dashboard() {
     fetchTrendingTopics();
   }, []);
 
-  const resetPerQuestionState = useCallback(() => {
+  const resetPerQuestionState = useCallback((nextQuestion?: QuizQuestion) => {
     setSelectedAnswer(null);
+    setSelectedOptions([]);
+    setTextAnswer('');
+    setArrangement(getInitialArrangement(nextQuestion));
     setShowExplanation(false);
     setEliminatedOptions([]);
-    setHintText(null);
+    setHintLevel(0);
+    setReplaceError(null);
     setQuestionStartedAt(Date.now());
   }, []);
 
@@ -158,76 +259,224 @@ export default function Dashboard() {
       return;
     }
 
+    if (studyGuideSections.length > 1 && !includedSectionCount) {
+      setError('Select at least one study guide section');
+      return;
+    }
+
+    if (questionType === 'mixed' && !getMixTotal(questionMix)) {
+      setError('Give at least one question type a share of the mix');
+      return;
+    }
+
     setIsGenerating(true);
     setError(null);
     setSaveStatus('idle');
     hasSavedRef.current = false;
 
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    let receivedCount = 0;
+
     try {
+      let excludeQuestions: string[] | undefined;
+      if (user && skipSeenQuestions) {
+        try {
+          excludeQuestions = await getSeenQuestions(user.uid, content);
+        } catch {
+          // Generating a fresh quiz matters more than skipping repeats; carry on without the history.
+        }
+      }
+
       const res = await fetch('/api/quiz', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders(user)) },
         body: JSON.stringify({
           mode,
           topic: mode === 'topic' ? topic.trim() : undefined,
           studyGuide: mode === 'studyGuide' ? studyGuide.trim() : undefined,
           questionType,
+          questionMix: questionType === 'mixed' ? questionMix : undefined,
+          sections: sectionSelection,
+          excludeQuestions,
           difficulty,
-          count: parsed
-        })
+          count: parsed,
+          ...languageRequest,
+          stream: true
+        }),
+        signal: controller.signal
       });
 
       if (!res.ok) {
-        const data = (await res.json()) as { error?: string; rateLimitExceeded?: boolean };
+        const data = (await res.json()) as { error?: string; rateLimitExceeded?: boolean; contentBlocked?: boolean };
         if (data.rateLimitExceeded) {
           throw new Error(data.error || 'Rate limit exceeded');
         }
+        if (data.contentBlocked) {
+          throw new Error(data.error || 'This topic was blocked by the content filter');
+        }
         throw new Error(data.error || 'Failed to generate quiz');
       }
 
-      const data = (await res.json()) as Quiz;
-      setQuiz(data);
-      setCurrentQuestion(0);
-      setScore(0);
-      setQuizComplete(false);
-      
-      // Update rate limit status after successful generation
-      const statusRes = await fetch('/api/rate-limit-status');
-      if (statusRes.ok) {
-        const statusData = await statusRes.json();
-        setRateLimitStatus(statusData);
+      let streamTitle = '';
+      let streamCompleted = false;
+      await readQuizStream(res, (event) => {
+        if (event.type === 'error') {
+          throw new Error(event.error);
+        }
+
+        if (event.type === 'meta') {
+          streamTitle = event.title;
+          setExpectedCount(event.expectedCount);
+          return;
+        }
+
+        if (event.type === 'done') {
+          streamCompleted = true;
+          setQuiz(event.quiz);
+          return;
+        }
+
+        receivedCount += 1;
+        if (receivedCount > 1) {
+          setQuiz((prev) => (prev ? { ...prev, questions: [...prev.questions, event.question] } : prev));
+          return;
+        }
+
+        // Start playing as soon as the first question arrives; the rest stream in behind it.
+        setQuiz({ title: streamTitle || 'Generating quiz...', questions: [event.question] });
+        setCurrentQuestion(0);
+        setScore(0);
+        setQuizComplete(false);
+        setAnswers([]);
+        setResponseTimes([]);
+        setCurrentStreak(0);
+        setBestStreak(0);
+        setFiftyFiftyUsed(false);
+        setHintUsed(false);
+        setPracticeMode(false);
+        setResultCopied(false);
+        resetPerQuestionState(event.question);
+      });
+
+      if (!streamCompleted) {
+        throw new Error('Quiz generation ended unexpectedly');
       }
-      setAnswers([]);
-      setResponseTimes([]);
-      setCurrentStreak(0);
-      setBestStreak(0);
-      setFiftyFiftyUsed(false);
-      setHintUsed(false);
-      setPracticeMode(false);
-      setResultCopied(false);
-      resetPerQuestionState();
+
+      // Update rate limit status after successful generation
+      await fetchRateLimitStatus();
     } catch (err: unknown) {
+      if (controller.signal.aborted) return;
+
       const message = err instanceof Error ? err.message : 'Failed to generate quiz';
       setError(message);
+      if (receivedCount > 0) {
+        // Keep playing what already arrived and flag the rest as missing.
+        setQuiz((prev) =>
+          prev ? { ...prev, shortfall: { requested: parsed, generated: prev.questions.length } } : prev
+        );
+      }
+    } finally {
+      if (generationAbortRef.current === controller) {
+        generationAbortRef.current = null;
+        setIsGenerating(false);
+        setExpectedCount(null);
+      }
+    }
+  };
+
+  // Swaps the current question for a fresh one of the same type; costs a fraction of a generation.
+  const handleReplaceQuestion = async () => {
+    if (!quiz || showExplanation || isGenerating || isReplacing) return;
+    const current = quiz.questions[currentQuestion];
+    const replacedIndex = currentQuestion;
+
+    setIsReplacing(true);
+    setReplaceError(null);
+
+    try {
+      const res = await fetch('/api/replace-question', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders(user)) },
+        body: JSON.stringify({
+          mode,
+          topic: mode === 'topic' ? topic.trim() : undefined,
+          studyGuide: mode === 'studyGuide' ? studyGuide.trim() : undefined,
+          sections: sectionSelection,
+          questionType: current.type,
+          difficulty,
+          avoidQuestions: quiz.questions.map(getQuestionFingerprint),
+          sourceQuote: current.source?.quote,
+          seed: quiz.seed,
+          index: replacedIndex,
+          ...languageRequest
+        })
+      });
+
+      const data = (await res.json()) as { question?: QuizQuestion; error?: string };
+      if (!res.ok || !data.question) {
+        throw new Error(data.error || 'Failed to replace question');
+      }
+
+      const replacement = data.question;
+      setQuiz((prev) =>
+        prev
+          ? { ...prev, questions: prev.questions.map((question, index) => (index === replacedIndex ? replacement : question)) }
+          : prev
+      );
+      resetPerQuestionState(replacement);
+      await fetchRateLimitStatus();
+    } catch (err: unknown) {
+      setReplaceError(err instanceof Error ? err.message : 'Failed to replace question');
     } finally {
-      setIsGenerating(false);
+      setIsReplacing(false);
     }
   };
 
   const handleSelectAnswer = (index: number) => {
-    if (showExplanation || eliminatedOptions.includes(index)) return;
+    if (!quiz || showExplanation || eliminatedOptions.includes(index)) return;
+
+    if (quiz.questions[currentQuestion]?.type === 'multi-select') {
+      setSelectedOptions((prev) => toggleIndex(prev, index));
+      return;
+    }
     setSelectedAnswer(index);
   };
 
+  const handleMoveItem = (from: number, to: number) => {
+    if (!quiz || showExplanation || to < 0 || to >= arrangement.length) return;
+    const currentQ = quiz.questions[currentQuestion];
+
+    setArrangement((prev) => {
+      const next = [...prev];
+      if (currentQ?.type === 'matching') {
+        // Matching swaps definitions so every other term keeps its pairing.
+        [next[from], next[to]] = [next[to], next[from]];
+      } else {
+        const [moved] = next.splice(from, 1);
+        next.splice(to, 0, moved);
+      }
+      return next;
+    });
+  };
+
   const handleSubmitAnswer = useCallback(
-    (forcedSelection?: number | null) => {
+    (forcedSelection?: AnswerValue) => {
       if (!quiz || showExplanation) return;
 
       const currentQ = quiz.questions[currentQuestion];
       if (!currentQ) return;
 
-      const answerToUse = forcedSelection !== undefined ? forcedSelection : selectedAnswer;
-      if (answerToUse === null || answerToUse === undefined) {
+      const currentSelection =
+        currentQ.type === 'multi-select'
+          ? selectedOptions
+          : currentQ.type === 'matching' || currentQ.type === 'ordering'
+            ? arrangement
+            : isFreeResponseQuestion(currentQ) || currentQ.type === 'numeric'
+              ? textAnswer.trim() || null
+              : selectedAnswer;
+      const answerToUse = forcedSelection !== undefined ? forcedSelection : currentSelection;
+      if (answerToUse === null || answerToUse === undefined || (Array.isArray(answerToUse) && !answerToUse.length)) {
         return;
       }
 
@@ -235,11 +484,11 @@ export default function Dashboard() {
         ? Math.max(1, Math.round((Date.now() - questionStartedAt) / 1000))
         : 0;
 
-      const correct = currentQ.answerIndex;
-      const isCorrect = answerToUse === correct;
+      const credit = gradeAnswer(currentQ, answerToUse);
+      const isCorrect = credit === 1;
 
-      if (isCorrect) {
-        setScore((prev) => prev + 1);
+      if (credit > 0) {
+        setScore((prev) => prev + credit);
       }
 
       setCurrentStreak((prev) => {
@@ -251,15 +500,26 @@ export default function Dashboard() {
       setAnswers((prev) => [
         ...prev,
         {
-          selected: answerToUse ?? null,
-          correct,
-          timeSpent: elapsedSeconds
+          selected: answerToUse,
+          credit,
+          timeSpent: elapsedSeconds,
+          hintLevels: hintLevel
         }
       ]);
       setResponseTimes((prev) => [...prev, elapsedSeconds]);
       setShowExplanation(true);
     },
-    [quiz, currentQuestion, selectedAnswer, showExplanation, questionStartedAt]
+    [
+      quiz,
+      currentQuestion,
+      selectedAnswer,
+      selectedOptions,
+      textAnswer,
+      arrangement,
+      showExplanation,
+      questionStartedAt,
+      hintLevel
+    ]
   );
 
   const handleNextQuestion = useCallback(() => {
@@ -267,16 +527,23 @@ export default function Dashboard() {
 
     if (currentQuestion < quiz.questions.length - 1) {
       setCurrentQuestion((prev) => prev + 1);
-      resetPerQuestionState();
-    } else {
+      resetPerQuestionState(quiz.questions[currentQuestion + 1]);
+    } else if (!isGenerating) {
       setQuizComplete(true);
     }
-  }, [quiz, currentQuestion, resetPerQuestionState]);
+  }, [quiz, currentQuestion, isGenerating, resetPerQuestionState]);
 
   const handleRestartQuiz = () => {
+    generationAbortRef.current?.abort();
+    generationAbortRef.current = null;
+    setIsGenerating(false);
+    setExpectedCount(null);
     setQuiz(null);
     setCurrentQuestion(0);
     setSelectedAnswer(null);
+    setSelectedOptions([]);
+    setTextAnswer('');
+    setArrangement([]);
     setShowExplanation(false);
     setScore(0);
     setQuizComplete(false);
@@ -286,6 +553,9 @@ export default function Dashboard() {
     setStudyGuide('');
     setQuestionType('multiple-choice');
     setDifficulty('mixed');
+    setLanguage(DEFAULT_LANGUAGE);
+    setLanguageLearning(false);
+    setLearnerLanguage(DEFAULT_LANGUAGE);
     setNumQuestions('10');
     setUploadedFileName(null);
     setCurrentStreak(0);
@@ -294,7 +564,7 @@ export default function Dashboard() {
     setFiftyFiftyUsed(false);
     setHintUsed(false);
     setEliminatedOptions([]);
-    setHintText(null);
+    setHintLevel(0);
     setPracticeMode(false);
     setResultCopied(false);
     setQuestionStartedAt(null);
@@ -304,7 +574,7 @@ export default function Dashboard() {
     if (!quiz || showExplanation || fiftyFiftyUsed) return;
 
     const currentQ = quiz.questions[currentQuestion];
-    if (!currentQ || currentQ.options.length < 4) return;
+    if (!currentQ || currentQ.type !== 'multiple-choice' || currentQ.options.length < 4) return;
 
     const incorrectIndices = currentQ.options
       .map((_, index) => index)
@@ -320,12 +590,13 @@ export default function Dashboard() {
     }
   };
 
+  // The lifeline is spent on one question per quiz; each further press there reveals a stronger clue.
   const handleUseHint = () => {
-    if (!quiz || showExplanation || hintUsed) return;
-    const currentQ = quiz.questions[currentQuestion];
-    if (!currentQ) return;
+    if (!quiz || showExplanation) return;
+    const hints = quiz.questions[currentQuestion]?.hints ?? [];
+    if (hintLevel >= hints.length || (hintUsed && !hintLevel)) return;
 
-    setHintText(getHintFromExplanation(currentQ.explanation));
+    setHintLevel(hintLevel + 1);
     setHintUsed(true);
   };
 
@@ -334,7 +605,7 @@ export default function Dashboard() {
 
     const missedQuestions = quiz.questions.filter((_, index) => {
       const answer = answers[index];
-      return !answer || answer.selected !== answer.correct;
+      return !answer || answer.credit < 1;
     });
 
     if (missedQuestions.length === 0) return;
@@ -346,6 +617,9 @@ export default function Dashboard() {
     setPracticeMode(true);
     setCurrentQuestion(0);
     setSelectedAnswer(null);
+    setSelectedOptions([]);
+    setTextAnswer('');
+    setArrangement(getInitialArrangement(missedQuestions[0]));
     setShowExplanation(false);
     setScore(0);
     setQuizComplete(false);
@@ -356,7 +630,7 @@ export default function Dashboard() {
     setFiftyFiftyUsed(false);
     setHintUsed(false);
     setEliminatedOptions([]);
-    setHintText(null);
+    setHintLevel(0);
     setResultCopied(false);
     setQuestionStartedAt(Date.now());
   };
@@ -367,11 +641,13 @@ export default function Dashboard() {
     const percentage = quiz.questions.length > 0 ? Math.round((score / quiz.questions.length) * 100) : 0;
     const summary = [
       `Quiziq Results: ${quiz.title}`,
-      `Score: ${score}/${quiz.questions.length} (${percentage}%)`,
+      `Score: ${formatScore(score)}/${quiz.questions.length} (${percentage}%)`,
       `Difficulty: ${DIFFICULTY_LABELS[difficulty]}`,
-      `Question Type: ${questionType === 'multiple-choice' ? 'Multiple Choice' : 'True / False'}`,
+      `Question Type: ${QUESTION_TYPE_LABELS[questionType]}`,
+      `Language: ${getLanguageName(language)}${languageLearning ? ` (learning, explained in ${getLanguageName(learnerLanguage)})` : ''}`,
       `Best Streak: ${bestStreak}`,
-      `Average Response Time: ${averageResponseSeconds.toFixed(1)}s`
+      `Average Response Time: ${averageResponseSeconds.toFixed(1)}s`,
+      `Hint Levels Used: ${getHintLevelsUsed(answers)}`
     ].join('\n');
 
     try {
@@ -408,7 +684,7 @@ export default function Dashboard() {
           const page = await pdf.getPage(i);
           const textContent = await page.getTextContent();
           const pageText = textContent.items.map((item) => ('str' in item ? item.str : '')).join(' ');
-          textParts.push(pageText);
+          textParts.push(`${formatPageMarker(i)}\n${pageText}`);
         }
         extractedText = textParts.join('\n\n');
       } else if (fileExtension === 'docx') {
@@ -467,9 +743,14 @@ export default function Dashboard() {
 
       if (/^[1-4]$/.test(event.key)) {
         const index = Number(event.key) - 1;
-        const optionCount = quiz.questions[currentQuestion]?.options.length ?? 0;
+        const activeQuestion = quiz.questions[currentQuestion];
+        const optionCount = activeQuestion && 'options' in activeQuestion ? activeQuestion.options.length : 0;
         if (index < optionCount && !eliminatedOptions.includes(index)) {
-          setSelectedAnswer(index);
+          if (activeQuestion?.type === 'multi-select') {
+            setSelectedOptions((prev) => toggleIndex(prev, index));
+          } else {
+            setSelectedAnswer(index);
+          }
         }
       }
 
@@ -498,18 +779,23 @@ export default function Dashboard() {
         await addDoc(collection(db, 'users', user.uid, 'quizHistory'), {
           title: quiz.title,
           topic: content,
-          score,
+          score: Number(score.toFixed(2)),
           total: quiz.questions.length,
+          questions: quiz.questions.map(getQuestionFingerprint),
           percent: percentage,
           settings: {
             count: Number.parseInt(numQuestions, 10) || quiz.questions.length,
             mode,
             questionType,
-            difficulty
-          },
+            ...(questionType === 'mixed' ? { questionMix } : {}),
+            difficulty,
+            language,
+            ...(languageLearning ? { languageLearning, learnerLanguage } : {})
+          } satisfies QuizSettings,
           analytics: {
             averageResponseTime,
-            bestStreak
+            bestStreak,
+            hintLevelsUsed: getHintLevelsUsed(answers)
           },
           createdAt: serverTimestamp()
         });
@@ -532,15 +818,20 @@ export default function Dashboard() {
     score,
     numQuestions,
     questionType,
+    questionMix,
     difficulty,
+    language,
+    languageLearning,
+    learnerLanguage,
     responseTimes,
-    bestStreak
+    bestStreak,
+    answers
   ]);
 
   // Quiz complete view
   if (quizComplete && quiz) {
     const percentage = quiz.questions.length > 0 ? Math.round((score / quiz.questions.length) * 100) : 0;
-    const missedCount = answers.filter((item) => item.selected !== item.correct).length;
+    const missedCount = answers.filter((item) => item.credit < 1).length;
 
     return (
       <>
@@ -553,10 +844,12 @@ export default function Dashboard() {
           <Card variant="panel" className="p-4 sm:p-6 md:p-8">
             <div className="text-center mb-6">
               <p className="text-5xl sm:text-6xl font-bold text-glow">{percentage}%</p>
-              <p className="mt-2 text-white/70">You got {score} out of {quiz.questions.length} correct</p>
+              <p className="mt-2 text-white/70">You got {formatScore(score)} out of {quiz.questions.length} correct</p>
               <div className="mt-3 flex flex-wrap justify-center gap-2 text-xs">
                 <span className="badge">{DIFFICULTY_LABELS[difficulty]}</span>
-                <span className="badge">{questionType === 'multiple-choice' ? 'MCQ' : 'True/False'}</span>
+                <span className="badge">{QUESTION_TYPE_BADGES[questionType]}</span>
+                {language !== DEFAULT_LANGUAGE && <span className="badge">{getLanguageName(language)}</span>}
+                {languageLearning && <span className="badge">Language Learning</span>}
                 {practiceMode && <span className="badge">Mistake Remix</span>}
               </div>
             </div>
@@ -605,23 +898,35 @@ export default function Dashboard() {
               <p className="text-sm uppercase tracking-[0.2em] text-white/50 text-center">Review Answers</p>
               {quiz.questions.map((q, index) => {
                 const answerRecord = answers[index];
-                const selectedLabel =
-                  answerRecord?.selected === null || answerRecord?.selected === undefined
-                    ? 'No answer selected'
-                    : q.options[answerRecord.selected] ?? 'No answer selected';
-                const isCorrect = answerRecord?.selected === answerRecord?.correct;
+                const selectedLabel = getAnswerLabel(q, answerRecord?.selected);
+                const credit = answerRecord?.credit ?? 0;
+                const isCorrect = credit === 1;
+                const answerColor = isCorrect ? 'text-green-400' : credit > 0 ? 'text-amber-300' : 'text-red-400';
 
                 return (
                   <div key={q.question + index} className="rounded-2xl border border-white/10 bg-white/5 p-4">
                     <p className="font-semibold text-sm">{index + 1}. {q.question}</p>
                     <p className="mt-2 text-sm">
-                      <span className={isCorrect ? 'text-green-400' : 'text-red-400'}>Your answer: {selectedLabel}</span>
+                      <span className={answerColor}>Your answer: {selectedLabel}</span>
                     </p>
                     {!isCorrect && (
-                      <p className="text-sm text-green-400">Correct: {q.options[q.answerIndex]}</p>
+                      <p className="text-sm text-green-400">Correct: {getCorrectAnswerLabel(q)}</p>
+                    )}
+                    {credit > 0 && credit < 1 && (
+                      <p className="text-xs text-amber-300">Partial credit: {Math.round(credit * 100)}%</p>
                     )}
-                    <p className="mt-1 text-xs text-white/50">Response time: {answerRecord?.timeSpent ?? 0}s</p>
+                    <p className="mt-1 text-xs text-white/50">
+                      Response time: {answerRecord?.timeSpent ?? 0}s
+                      {answerRecord?.hintLevels ? ` · Hints used: ${answerRecord.hintLevels}` : ''}
+                    </p>
                     <p className="mt-2 text-xs text-white/50">{q.explanation}</p>
+                    {q.source && <SourceCitation source={q.source} />}
+                    <ExplanationThread
+                      question={q}
+                      selected={answerRecord?.selected ?? null}
+                      language={explanationLanguage}
+                      onReply={fetchRateLimitStatus}
+                    />
                   </div>
                 );
               })}
@@ -639,6 +944,25 @@ export default function Dashboard() {
   // Active quiz view
   if (quiz) {
     const q = quiz.questions[currentQuestion];
+    const totalQuestions = isGenerating ? Math.max(expectedCount ?? 0, quiz.questions.length) : quiz.questions.length;
+    const isLastAvailable = currentQuestion >= quiz.questions.length - 1;
+    const isMultiSelect = q.type === 'multi-select';
+    const correctIndices = getCorrectOptionIndices(q);
+    const chosenIndices = isMultiSelect ? selectedOptions : selectedAnswer === null ? [] : [selectedAnswer];
+    const isFreeResponse = isFreeResponseQuestion(q);
+    const isTypedAnswer = isFreeResponse || q.type === 'numeric';
+    const isArrangement = q.type === 'matching' || q.type === 'ordering';
+    const canSubmit = isTypedAnswer ? Boolean(textAnswer.trim()) : isArrangement || chosenIndices.length > 0;
+    const arrangementItems =
+      q.type === 'matching'
+        ? arrangement.map((pairIndex) => q.pairs[pairIndex]?.definition ?? '')
+        : q.type === 'ordering'
+          ? arrangement.map((itemIndex) => q.items[itemIndex] ?? '')
+          : [];
+    const expectedItems =
+      q.type === 'matching' ? q.pairs.map((pair) => pair.definition) : q.type === 'ordering' ? q.items : [];
+    const lastAnswer = answers[currentQuestion];
+    const hints = q.hints ?? [];
 
     return (
       <>
@@ -646,29 +970,52 @@ export default function Dashboard() {
           <p className="text-xs uppercase tracking-[0.3em] text-white/50">{quiz.title}</p>
           <div className="flex flex-wrap items-center justify-between gap-2">
             <h1 className="font-display text-2xl font-bold text-white md:text-3xl">
-              Question {currentQuestion + 1} of {quiz.questions.length}
+              Question {currentQuestion + 1} of {totalQuestions}
             </h1>
             <div className="flex items-center gap-2">
-              <span className="badge">{score} correct</span>
+              <span className="badge">{formatScore(score)} correct</span>
               <span className="badge">Streak {currentStreak}</span>
             </div>
           </div>
           <div className="h-2 w-full rounded-full bg-white/10 overflow-hidden">
             <div
               className="h-2 rounded-full bg-gradient-to-r from-glow via-flare to-sun transition-all duration-500 ease-out"
-              style={{ width: `${((currentQuestion + 1) / quiz.questions.length) * 100}%` }}
+              style={{ width: `${((currentQuestion + 1) / totalQuestions) * 100}%` }}
             />
           </div>
+          {isGenerating && (
+            <p className="text-xs text-white/50">
+              {quiz.questions.length} of {totalQuestions} questions ready. More are still generating...
+            </p>
+          )}
+          {quiz.shortfall && (
+            <p className="text-xs text-amber-300">
+              Only {quiz.shortfall.generated} of {quiz.shortfall.requested} requested questions could be generated.
+            </p>
+          )}
         </section>
 
         <section className="max-w-3xl mx-auto w-full">
           <Card variant="panel" className="p-4 sm:p-6 md:p-8">
             <p className="text-base sm:text-lg font-semibold break-words">{q.question}</p>
+            {!showExplanation && (
+              <div className="mt-2 flex flex-wrap items-center gap-3 text-xs">
+                <button
+                  onClick={handleReplaceQuestion}
+                  disabled={isGenerating || isReplacing}
+                  className="inline-flex items-center gap-1 text-white/50 transition hover:text-white disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  <Icons.RefreshCw className={`h-3.5 w-3.5 ${isReplacing ? 'animate-spin' : ''}`} />
+                  {isReplacing ? 'Replacing...' : `Replace question (${REPLACE_QUESTION_COST} credit)`}
+                </button>
+                {replaceError && <span className="text-red-400">{replaceError}</span>}
+              </div>
+            )}
 
             <div className="mt-4 grid gap-3 sm:grid-cols-2">
               <button
                 onClick={handleUseFiftyFifty}
-                disabled={showExplanation || fiftyFiftyUsed || q.options.length < 4}
+                disabled={showExplanation || fiftyFiftyUsed || q.type !== 'multiple-choice' || q.options.length < 4}
                 className="rounded-xl border border-white/10 bg-white/5 px-4 py-2 text-left text-xs text-white/80 transition hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed"
               >
                 <p className="font-semibold">50/50 Lifeline</p>
@@ -676,82 +1023,170 @@ export default function Dashboard() {
               </button>
               <button
                 onClick={handleUseHint}
-                disabled={showExplanation || hintUsed}
+                disabled={showExplanation || hintLevel >= hints.length || (hintUsed && !hintLevel)}
                 className="rounded-xl border border-white/10 bg-white/5 px-4 py-2 text-left text-xs text-white/80 transition hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed"
               >
                 <p className="font-semibold">Insight Hint</p>
-                <p className="text-white/60">{hintUsed ? 'Used in this quiz' : 'Reveal a clue before answering'}</p>
+                <p className="text-white/60">
+                  {hintUsed && !hintLevel
+                    ? 'Used in this quiz'
+                    : !hints.length
+                      ? 'No hint for this question'
+                      : !hintLevel
+                        ? 'Reveal a clue before answering'
+                        : hintLevel < hints.length
+                          ? 'Reveal a stronger clue'
+                          : 'All clues revealed'}
+                </p>
               </button>
             </div>
 
-            {hintText && !showExplanation && (
-              <div className="mt-4 rounded-2xl border border-sky-400/30 bg-sky-500/10 p-4">
-                <p className="text-xs uppercase tracking-[0.2em] text-sky-300">Hint</p>
-                <p className="mt-1 text-sm text-sky-100">{hintText}</p>
+            {hintLevel > 0 && !showExplanation && (
+              <div className="mt-4 space-y-2 rounded-2xl border border-sky-400/30 bg-sky-500/10 p-4">
+                {hints.slice(0, hintLevel).map((hint) => (
+                  <div key={hint.level}>
+                    <p className="text-xs uppercase tracking-[0.2em] text-sky-300">{HINT_LABELS[hint.level]}</p>
+                    <p className="mt-1 text-sm text-sky-100">{hint.text}</p>
+                  </div>
+                ))}
               </div>
             )}
 
-            <div className="mt-6 space-y-3">
-              {q.options.map((option, index) => {
-                const isEliminated = !showExplanation && eliminatedOptions.includes(index);
-
-                if (isEliminated) {
-                  return (
-                    <div key={option + index} className="w-full rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm text-white/35">
-                      Option {index + 1} removed by 50/50
-                    </div>
-                  );
-                }
-
-                let className = 'w-full rounded-2xl border px-4 py-3 text-left text-sm sm:text-base transition active:scale-[0.98] ';
+            {isTypedAnswer ? (
+              <div className="mt-6 space-y-3">
+                <input
+                  type="text"
+                  value={textAnswer}
+                  onChange={(event) => setTextAnswer(event.target.value)}
+                  onKeyDown={(event) => {
+                    if (event.key === 'Enter') {
+                      event.preventDefault();
+                      handleSubmitAnswer();
+                    }
+                  }}
+                  disabled={showExplanation}
+                  inputMode={q.type === 'numeric' ? 'decimal' : undefined}
+                  placeholder={
+                    q.type === 'numeric'
+                      ? `Enter a number${q.unit ? ` in ${q.unit}` : ''}`
+                      : q.type === 'fill-in-the-blank'
+                        ? 'Fill in the blank'
+                        : 'Type your answer'
+                  }
+                  aria-label="Your answer"
+                  className="w-full rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-white placeholder:text-white/40 focus:border-white/30 focus:outline-none disabled:opacity-60"
+                />
+                {showExplanation && (
+                  <div
+                    className={`rounded-2xl border px-4 py-3 text-sm ${
+                      lastAnswer?.credit === 1
+                        ? 'border-green-500 bg-green-500/20 text-green-300'
+                        : 'border-red-500 bg-red-500/20 text-red-300'
+                    }`}
+                  >
+                    <p>
+                      {lastAnswer?.credit === 1 ? 'Correct!' : 'Not quite.'} Answer: {getCorrectAnswerLabel(q)}
+                    </p>
+                    {isFreeResponse && q.acceptedAnswers.length > 0 && (
+                      <p className="mt-1 text-xs opacity-80">Also accepted: {q.acceptedAnswers.join(', ')}</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            ) : isArrangement ? (
+              <div className="mt-6">
+                <SortableList
+                  items={arrangementItems}
+                  slotLabels={q.type === 'matching' ? q.pairs.map((pair) => pair.term) : undefined}
+                  onMove={handleMoveItem}
+                  disabled={showExplanation}
+                  results={
+                    showExplanation
+                      ? getArrangementSlotResults(arrangement).map((correct, slot) => ({ correct, expected: expectedItems[slot] }))
+                      : undefined
+                  }
+                />
+              </div>
+            ) : (
+              <div className="mt-6 space-y-3">
+                {q.options.map((option, index) => {
+                  const isEliminated = !showExplanation && eliminatedOptions.includes(index);
+
+                  if (isEliminated) {
+                    return (
+                      <div key={option + index} className="w-full rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm text-white/35">
+                        Option {index + 1} removed by 50/50
+                      </div>
+                    );
+                  }
 
-                if (showExplanation) {
-                  if (index === q.answerIndex) {
-                    className += 'border-green-500 bg-green-500/20 text-green-300';
-                  } else if (index === selectedAnswer) {
-                    className += 'border-red-500 bg-red-500/20 text-red-300';
+                  let className = 'w-full rounded-2xl border px-4 py-3 text-left text-sm sm:text-base transition active:scale-[0.98] ';
+
+                  if (showExplanation) {
+                    if (correctIndices.includes(index)) {
+                      className += 'border-green-500 bg-green-500/20 text-green-300';
+                    } else if (chosenIndices.includes(index)) {
+                      className += 'border-red-500 bg-red-500/20 text-red-300';
+                    } else {
+                      className += 'border-white/10 bg-white/5 text-white/50';
+                    }
+                  } else if (chosenIndices.includes(index)) {
+                    className += 'border-glow bg-glow/20 text-white';
                   } else {
-                    className += 'border-white/10 bg-white/5 text-white/50';
+                    className += 'border-white/10 bg-white/5 text-white/70 hover:bg-white/10';
                   }
-                } else if (index === selectedAnswer) {
-                  className += 'border-glow bg-glow/20 text-white';
-                } else {
-                  className += 'border-white/10 bg-white/5 text-white/70 hover:bg-white/10';
-                }
 
-                return (
-                  <button
-                    key={option + index}
-                    onClick={() => handleSelectAnswer(index)}
-                    className={className}
-                    disabled={showExplanation}
-                  >
-                    <span className="mr-3 inline-flex h-6 w-6 items-center justify-center rounded-full border border-white/20 text-xs">
-                      {index + 1}
-                    </span>
-                    {option}
-                  </button>
-                );
-              })}
-            </div>
+                  return (
+                    <button
+                      key={option + index}
+                      onClick={() => handleSelectAnswer(index)}
+                      className={className}
+                      disabled={showExplanation}
+                      role={isMultiSelect ? 'checkbox' : undefined}
+                      aria-checked={isMultiSelect ? chosenIndices.includes(index) : undefined}
+                    >
+                      <span
+                        className={`mr-3 inline-flex h-6 w-6 items-center justify-center border border-white/20 text-xs ${
+                          isMultiSelect ? 'rounded-md' : 'rounded-full'
+                        }`}
+                      >
+                        {isMultiSelect && chosenIndices.includes(index) ? <Icons.Check className="h-4 w-4" /> : index + 1}
+                      </span>
+                      {option}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
 
             {showExplanation && (
               <div className="mt-6 rounded-2xl border border-white/10 bg-white/5 p-4">
                 <p className="text-sm font-semibold text-white/70">Explanation</p>
                 <p className="mt-1 text-sm text-white/50">{q.explanation}</p>
+                {q.source && <SourceCitation source={q.source} />}
               </div>
             )}
 
-            <p className="mt-4 text-xs text-white/50">Keyboard: press 1-4 to select, Enter to submit/continue.</p>
+            <p className="mt-4 text-xs text-white/50">
+              {isFreeResponse
+                ? 'Type your answer. Small typos are forgiven. Press Enter to submit/continue.'
+                : q.type === 'numeric'
+                  ? 'Type a number. Decimals, scientific notation (6.02e23) and fractions (3/4) work. Press Enter to submit/continue.'
+                : isArrangement
+                  ? `${q.type === 'matching' ? 'Drag each definition next to its term' : 'Drag the items into the correct order'}, or use the arrow buttons. Press Enter to submit/continue.`
+                  : isMultiSelect
+                    ? 'Select all that apply. Keyboard: press 1-4 to toggle, Enter to submit/continue.'
+                    : 'Keyboard: press 1-4 to select, Enter to submit/continue.'}
+            </p>
 
             <div className="mt-6">
               {!showExplanation ? (
-                <Button onClick={() => handleSubmitAnswer()} disabled={selectedAnswer === null} className="w-full">
+                <Button onClick={() => handleSubmitAnswer()} disabled={!canSubmit} className="w-full">
                   Submit Answer
                 </Button>
               ) : (
-                <Button onClick={handleNextQuestion} className="w-full">
-                  {currentQuestion < quiz.questions.length - 1 ? 'Next Question' : 'See Results'}
+                <Button onClick={handleNextQuestion} disabled={isLastAvailable && isGenerating} className="w-full">
+                  {!isLastAvailable ? 'Next Question' : isGenerating ? 'Loading Next Question...' : 'See Results'}
                 </Button>
               )}
             </div>
@@ -774,9 +1209,17 @@ export default function Dashboard() {
           <div className="mt-2 flex flex-wrap gap-3 text-xs">
             <div className="rounded-lg bg-white/5 px-3 py-1.5 border border-white/10">
               <span className="text-white/50">Daily: </span>
-              <span className={rateLimitStatus.daily <= 1 ? 'text-red-400 font-semibold' : 'text-white'}>
-                {rateLimitStatus.daily}/{rateLimitStatus.dailyLimit}
-              </span>
+              {rateLimitStatus.daily === null ? (
+                <span className="text-white">Unlimited</span>
+              ) : (
+                <span className={rateLimitStatus.daily <= 1 ? 'text-red-400 font-semibold' : 'text-white'}>
+                  {rateLimitStatus.daily}/{rateLimitStatus.dailyLimit}
+                </span>
+              )}
+            </div>
+            <div className="rounded-lg bg-white/5 px-3 py-1.5 border border-white/10">
+              <span className="text-white/50">Plan: </span>
+              <span className="text-white capitalize">{rateLimitStatus.tier}</span>
             </div>
           </div>
         )}
@@ -876,6 +1319,56 @@ export default function Dashboard() {
                 </div>
 
                 <p className="mt-2 text-xs text-white/50">Supports .txt, .pdf, and .docx files</p>
+
+                {injectionWarnings.length > 0 && (
+                  <div className="mt-4 rounded-2xl border border-amber-400/30 bg-amber-500/10 p-4 text-xs text-amber-200">
+                    <p className="font-semibold">This study guide contains text that reads like instructions to the AI.</p>
+                    <p className="mt-1 text-amber-200/80">
+                      It will be treated as plain study material, and questions that stray from the material are discarded.
+                    </p>
+                    <ul className="mt-2 list-disc pl-4 text-amber-200/70">
+                      {injectionWarnings.map((warning) => (
+                        <li key={warning}>{warning}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {studyGuideSections.length > 1 && (
+                  <div className="mt-4 rounded-2xl border border-white/10 bg-white/5 p-4">
+                    <div className="flex flex-wrap items-baseline justify-between gap-2">
+                      <p className="text-sm text-white/70">Sections ({includedSectionCount} of {studyGuideSections.length} selected)</p>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setExcludedSections(excludedSections.length ? [] : studyGuideSections.map((section) => section.index))
+                        }
+                        className="text-xs text-white/50 hover:text-white transition"
+                      >
+                        {excludedSections.length ? 'Select all' : 'Clear all'}
+                      </button>
+                    </div>
+                    <p className="mt-1 text-xs text-white/50">
+                      This study guide is long, so questions are spread across the selected sections by length.
+                    </p>
+                    <div className="mt-3 max-h-48 space-y-2 overflow-y-auto pr-1">
+                      {studyGuideSections.map((section) => (
+                        <label key={section.index} className="flex items-start gap-3 text-sm text-white/80 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={!excludedSections.includes(section.index)}
+                            onChange={() => setExcludedSections((prev) => toggleIndex(prev, section.index))}
+                            className="mt-1"
+                          />
+                          <span className="min-w-0">
+                            <span className="font-semibold">Section {section.index + 1}</span>
+                            <span className="text-white/50"> · {section.title}</span>
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             )}
 
@@ -884,11 +1377,18 @@ export default function Dashboard() {
                 <label className="block text-sm text-white/70 mb-2">Question Type</label>
                 <select
                   value={questionType}
-                  onChange={(event) => setQuestionType(event.target.value as 'multiple-choice' | 'true-false')}
+                  onChange={(event) => setQuestionType(event.target.value as QuestionTypeSetting)}
                   className="w-full rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-white focus:border-white/30 focus:outline-none"
                 >
                   <option value="multiple-choice" className="text-ink">Multiple Choice</option>
                   <option value="true-false" className="text-ink">True / False</option>
+                  <option value="multi-select" className="text-ink">Multi-Select (choose all)</option>
+                  <option value="fill-in-the-blank" className="text-ink">Fill in the Blank</option>
+                  <option value="short-answer" className="text-ink">Short Answer</option>
+                  <option value="matching" className="text-ink">Matching</option>
+                  <option value="ordering" className="text-ink">Ordering</option>
+                  <option value="numeric" className="text-ink">Numeric Answer</option>
+                  <option value="mixed" className="text-ink">Mixed (custom mix)</option>
                 </select>
               </div>
 
@@ -907,6 +1407,87 @@ export default function Dashboard() {
               </div>
             </div>
 
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <label className="block text-sm text-white/70 mb-2">Quiz Language</label>
+                <select
+                  value={language}
+                  onChange={(event) => setLanguage(event.target.value)}
+                  className="w-full rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-white focus:border-white/30 focus:outline-none"
+                >
+                  {QUIZ_LANGUAGES.map((option) => (
+                    <option key={option.code} value={option.code} className="text-ink">
+                      {option.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="flex items-center gap-3 text-sm text-white/70 mb-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={languageLearning}
+                    onChange={(event) => setLanguageLearning(event.target.checked)}
+                  />
+                  Language learning: explain in
+                </label>
+                <select
+                  value={learnerLanguage}
+                  onChange={(event) => setLearnerLanguage(event.target.value)}
+                  disabled={!languageLearning}
+                  aria-label="Explanation language"
+                  className="w-full rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-white focus:border-white/30 focus:outline-none disabled:opacity-50"
+                >
+                  {QUIZ_LANGUAGES.map((option) => (
+                    <option key={option.code} value={option.code} className="text-ink">
+                      {option.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {questionType === 'mixed' && (
+              <div className="rounded-2xl border border-white/10 bg-white/5 p-4">
+                <div className="flex flex-wrap items-baseline justify-between gap-2">
+                  <p className="text-sm text-white/70">Question Mix (%)</p>
+                  <p className={`text-xs ${getMixTotal(questionMix) === 100 ? 'text-white/50' : 'text-amber-300'}`}>
+                    Total {getMixTotal(questionMix)}%{getMixTotal(questionMix) !== 100 && ' — shares are scaled to fit'}
+                  </p>
+                </div>
+                <div className="mt-3 grid gap-3 sm:grid-cols-2">
+                  {QUESTION_TYPES.map((type) => (
+                    <label key={type} className="flex items-center justify-between gap-3 text-sm text-white/80">
+                      <span>{QUESTION_TYPE_LABELS[type]}</span>
+                      <input
+                        type="number"
+                        min={0}
+                        max={100}
+                        step={5}
+                        value={questionMix[type] ?? 0}
+                        onChange={(event) => {
+                          const value = Math.min(Math.max(Number.parseInt(event.target.value, 10) || 0, 0), 100);
+                          setQuestionMix((prev) => ({ ...prev, [type]: value }));
+                        }}
+                        aria-label={`${QUESTION_TYPE_LABELS[type]} share`}
+                        className="w-20 rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-right text-white focus:border-white/30 focus:outline-none"
+                      />
+                    </label>
+                  ))}
+                </div>
+                <p className="mt-3 text-xs text-white/50">
+                  {getMixTotal(questionMix)
+                    ? `This quiz: ${Object.entries(
+                        allocateQuestionCounts(questionMix, Number.parseInt(numQuestions, 10) || 10)
+                      )
+                        .map(([type, typeCount]) => `${typeCount} ${QUESTION_TYPE_BADGES[type as QuestionTypeSetting]}`)
+                        .join(', ')}`
+                    : 'Give at least one question type a share.'}
+                </p>
+              </div>
+            )}
+
             <div>
               <label className="block text-sm text-white/70 mb-2">Number of Questions (3–20)</label>
               <input
@@ -930,18 +1511,31 @@ export default function Dashboard() {
               />
             </div>
 
+            {user && (
+              <label className="flex items-center gap-3 text-sm text-white/70 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={skipSeenQuestions}
+                  onChange={(event) => setSkipSeenQuestions(event.target.checked)}
+                />
+                Skip questions I&apos;ve already seen on this topic
+              </label>
+            )}
+
             <Button
               onClick={handleGenerateQuiz}
               disabled={
                 (mode === 'topic' ? !topic.trim() : !studyGuide.trim()) ||
                 isGenerating ||
                 !numQuestions ||
+                (questionType === 'mixed' && !getMixTotal(questionMix)) ||
+                (studyGuideSections.length > 1 && !includedSectionCount) ||
                 Number.parseInt(numQuestions, 10) < 3 ||
                 Number.parseInt(numQuestions, 10) > 20
               }
               className="w-full mt-4"
             >
-              {isGenerating ? 'Generating...' : 'Generate Quiz'}
+              {isGenerating ? 'Generating...' : `Generate Quiz (${generationCost} credit${generationCost === 1 ? '' : 's'})`}
             </Button>
           </div>
         </Card>
@@ -958,7 +1552,7 @@ export default function Dashboard() {
             <p className="text-xs uppercase tracking-[0.2em] text-white/50">Current Setup</p>
             <div className="mt-2 flex flex-wrap gap-2">
               <span className="badge">{DIFFICULTY_LABELS[difficulty]}</span>
-              <span className="badge">{questionType === 'multiple-choice' ? 'MCQ' : 'True / False'}</span>
+              <span className="badge">{QUESTION_TYPE_BADGES[questionType]}</span>
               <span className="badge">Untimed</span>
             </div>
           </Card>
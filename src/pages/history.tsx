@@ -4,7 +4,11 @@ import { useAuth } from '@/context/AuthContext';
 import { useEffect, useMemo, useState } from 'react';
 import { collection, query, orderBy, getDocs, deleteDoc, doc } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { DEFAULT_LANGUAGE, getLanguageName } from '@/lib/languages';
+import { QUESTION_TYPE_BADGES } from '@/lib/questionMix';
+import { formatScore } from '@/lib/quizScoring';
 import { useRouter } from 'next/router';
+import type { QuizSettings } from '@/types/quiz';
 
 type Difficulty = 'beginner' | 'intermediate' | 'advanced' | 'mixed';
 
@@ -15,15 +19,11 @@ type QuizHistory = {
   score: number;
   total: number;
   percent: number;
-  settings?: {
-    count?: number;
-    mode?: 'topic' | 'studyGuide';
-    questionType?: 'multiple-choice' | 'true-false';
-    difficulty?: Difficulty;
-  };
+  settings?: QuizSettings;
   analytics?: {
     averageResponseTime?: number;
     bestStreak?: number;
+    hintLevelsUsed?: number;
   };
   createdAt: unknown;
 };
@@ -321,6 +321,7 @@ export default function History() {
                   const questionType = item.settings?.questionType ?? 'multiple-choice';
                   const pace = item.analytics?.averageResponseTime;
                   const streak = item.analytics?.bestStreak;
+                  const hintLevelsUsed = item.analytics?.hintLevelsUsed;
                   const topicPreview =
                     item.topic && item.topic.length > 180 ? `${item.topic.slice(0, 177)}...` : item.topic;
 
@@ -337,12 +338,25 @@ export default function History() {
                           <p className="text-sm text-white/70 mb-3">{topicPreview}</p>
 
                           <div className="flex flex-wrap items-center gap-2 text-xs text-white/60">
-                            <span className="rounded-full border border-white/15 px-3 py-1">{item.score}/{item.total} correct</span>
+                            <span className="rounded-full border border-white/15 px-3 py-1">{formatScore(item.score)}/{item.total} correct</span>
                             <span className="rounded-full border border-white/15 px-3 py-1">{item.settings?.count || item.total} questions</span>
                             <span className="rounded-full border border-white/15 px-3 py-1">{DIFFICULTY_LABELS[difficulty]}</span>
-                            <span className="rounded-full border border-white/15 px-3 py-1">{questionType === 'multiple-choice' ? 'MCQ' : 'True/False'}</span>
+                            <span className="rounded-full border border-white/15 px-3 py-1">{QUESTION_TYPE_BADGES[questionType] ?? 'MCQ'}</span>
+                            {item.settings?.language && item.settings.language !== DEFAULT_LANGUAGE && (
+                              <span className="rounded-full border border-white/15 px-3 py-1">
+                                {getLanguageName(item.settings.language)}
+                                {item.settings.languageLearning && item.settings.learnerLanguage
+                                  ? ` · explained in ${getLanguageName(item.settings.learnerLanguage)}`
+                                  : ''}
+                              </span>
+                            )}
                             {typeof pace === 'number' && <span className="rounded-full border border-white/15 px-3 py-1">{pace}s pace</span>}
                             {typeof streak === 'number' && <span className="rounded-full border border-white/15 px-3 py-1">Best streak {streak}</span>}
+                            {typeof hintLevelsUsed === 'number' && hintLevelsUsed > 0 && (
+                              <span className="rounded-full border border-white/15 px-3 py-1">
+                                {hintLevelsUsed} hint{hintLevelsUsed === 1 ? '' : 's'} used
+                              </span>
+                            )}
                           </div>
 
                           <div className="mt-3 text-xs text-white/50">{formatDate(item.createdAt)}</div>
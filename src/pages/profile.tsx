@@ -4,6 +4,8 @@ import { useRouter } from 'next/router';
 import { useEffect, useState } from 'react';
 import { collection, limit, onSnapshot, orderBy, query, Timestamp } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { formatScore } from '@/lib/quizScoring';
+import type { QuizSettings } from '@/types/quiz';
 
 export default function Profile() {
   const { user, logout } = useAuth();
@@ -17,9 +19,7 @@ export default function Profile() {
       total: number;
       percent: number;
       createdAt?: Timestamp;
-      settings?: {
-        count?: number;
-      };
+      settings?: QuizSettings;
     }[]
   >([]);
   const [historyLoading, setHistoryLoading] = useState(true);
@@ -51,9 +51,7 @@ export default function Profile() {
             total: number;
             percent: number;
             createdAt?: Timestamp;
-            settings?: {
-              count?: number;
-            };
+            settings?: QuizSettings;
           })
         }));
         setHistory(items);
@@ -148,7 +146,7 @@ export default function Profile() {
                   </div>
                   <div className="mt-3 flex flex-wrap gap-2 text-xs text-white/60">
                     <span className="rounded-full border border-white/10 px-3 py-1">
-                      {item.score} / {item.total}
+                      {formatScore(item.score)} / {item.total}
                     </span>
                   </div>
                 </div>
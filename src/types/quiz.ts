@@ -1,15 +1,151 @@
-export interface QuizQuestion {
+export type QuestionType =
+    | 'multiple-choice'
+    | 'true-false'
+    | 'multi-select'
+    | 'fill-in-the-blank'
+    | 'short-answer'
+    | 'matching'
+    | 'ordering'
+    | 'numeric';
+
+/** The question-type choice made when generating a quiz; 'mixed' draws from several types. */
+export type QuestionTypeSetting = QuestionType | 'mixed';
+
+/** Share or count of questions per type in a mixed quiz. */
+export type QuestionMix = Partial<Record<QuestionType, number>>;
+
+export type Difficulty = 'beginner' | 'intermediate' | 'advanced' | 'mixed';
+
+export type QuizMode = 'topic' | 'studyGuide';
+
+/** Passage of the study guide a question was drawn from, verified to appear in it. */
+export interface SourceCitation {
+    quote: string;
+    /** PDF page the quote starts on, when the study guide came from a PDF. */
+    page?: number;
+}
+
+/** How strong a clue is: a gentle nudge toward the right idea, or a stronger clue. */
+export type HintLevel = 'nudge' | 'clue';
+
+export interface QuestionHint {
+    level: HintLevel;
+    text: string;
+}
+
+interface BaseQuestion {
     question: string;
+    explanation: string;
+    source?: SourceCitation;
+    /** Progressively stronger clues (nudge first) that never state the answer. */
+    hints?: QuestionHint[];
+    /** Server signature showing the question came from this app unchanged; required to ask for explanations. */
+    token?: string;
+}
+
+export interface ChoiceQuestion extends BaseQuestion {
+    type: 'multiple-choice' | 'true-false';
     options: string[];
     answerIndex: number;
-    explanation: string;
 }
 
+export interface MultiSelectQuestion extends BaseQuestion {
+    type: 'multi-select';
+    options: string[];
+    answerIndices: number[];
+}
+
+export interface FreeResponseQuestion extends BaseQuestion {
+    type: 'fill-in-the-blank' | 'short-answer';
+    answer: string;
+    acceptedAnswers: string[];
+}
+
+export interface MatchingPair {
+    term: string;
+    definition: string;
+}
+
+export interface MatchingQuestion extends BaseQuestion {
+    type: 'matching';
+    pairs: MatchingPair[];
+}
+
+export interface OrderingQuestion extends BaseQuestion {
+    type: 'ordering';
+    /** Items in their correct order. */
+    items: string[];
+}
+
+export interface NumericQuestion extends BaseQuestion {
+    type: 'numeric';
+    answer: number;
+    /** Largest accepted absolute difference from `answer`. */
+    absoluteTolerance: number;
+    /** Largest accepted difference as a fraction of `answer`, e.g. 0.01 for 1%. */
+    relativeTolerance: number;
+    unit?: string;
+}
+
+export type QuizQuestion =
+    | ChoiceQuestion
+    | MultiSelectQuestion
+    | FreeResponseQuestion
+    | MatchingQuestion
+    | OrderingQuestion
+    | NumericQuestion;
+
+/** The generation settings saved with each quiz in the user's history. */
 export interface QuizSettings {
     count?: number;
+    mode?: QuizMode;
+    questionType?: QuestionTypeSetting;
+    /** Only saved for mixed quizzes. */
+    questionMix?: QuestionMix;
+    difficulty?: Difficulty;
+    language?: string;
+    /** Only saved for language-learning quizzes, whose explanations are in `learnerLanguage`. */
+    languageLearning?: boolean;
+    learnerLanguage?: string;
+}
+
+export interface QuestionIssue {
+    index: number;
+    question: string;
+    errors: string[];
+}
+
+export interface QuizValidationReport {
+    repaired: number;
+    dropped: QuestionIssue[];
+}
+
+export interface QuizShortfall {
+    requested: number;
+    generated: number;
 }
 
 export interface QuizPayload {
     title: string;
     questions: QuizQuestion[];
+    validation?: QuizValidationReport;
+    shortfall?: QuizShortfall;
+    /** Seed the option order was shuffled with; the same seed reproduces the same layout. */
+    seed?: string;
+    /** Why the submitted material was flagged, e.g. it contains instructions aimed at the model. */
+    contentWarnings?: string[];
+}
+
+export type QuizStreamEvent =
+    | { type: 'meta'; title: string; expectedCount: number }
+    | { type: 'question'; index: number; question: QuizQuestion }
+    | { type: 'done'; quiz: QuizPayload }
+    | { type: 'error'; error: string };
+
+/** One turn of the "explain this more" thread on the results review screen. */
+export interface ExplanationMessage {
+    role: 'user' | 'assistant';
+    content: string;
+    /** Server signature on tutor replies, so a client cannot send back replies the tutor never gave. */
+    token?: string;
 }
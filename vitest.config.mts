@@ -0,0 +1,22 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url))
+    }
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    passWithNoTests: true,
+    // Tests configure the app through process.env; never let a developer's Firebase or LLM keys leak in.
+    env: {
+      LLM_PROVIDER: 'fixture',
+      RATE_LIMIT_STORE: 'memory',
+      QUIZ_CACHE_TTL_SECONDS: '0'
+    },
+    unstubEnvs: true
+  }
+});